@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { spawn } from 'child_process';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
 /**
@@ -10,6 +11,9 @@ interface MetadataType {
   xmlName: string;
   directoryName?: string;
   childXmlNames?: string[];
+  inFolder?: boolean;
+  suffix?: string;
+  metaFile?: boolean;
 }
 
 interface MetadataItem {
@@ -17,6 +21,10 @@ interface MetadataItem {
   fileName?: string;
   type?: string;
   createdDate?: string;
+  lastModifiedDate?: string;
+  lastModifiedByName?: string;
+  namespacePrefix?: string;
+  manageableState?: string; // unmanaged, installed, installedEditable, released, deprecated…
 }
 
 interface CachedMetadataTypes {
@@ -28,19 +36,109 @@ interface CachedMetadataTypes {
 interface CachedMetadataItems {
   orgId: string;
   metadataType: string;
+  folder?: string; // set for items listed inside a Report/Dashboard/… folder
   items: MetadataItem[];
   ts?: number; // cache timestamp (ms)
 }
 
+interface MetadataComponent {
+  type: string;
+  fullName: string;
+}
+
+type RetrievedFile = { filePath: string; state?: string; error?: string; fullName?: string; type?: string };
+
+/** A retrieve problem and, when known, the component or file it concerns. */
+interface RetrieveProblem {
+  message: string; // as logged, with the file or component appended
+  problem: string;
+  component?: MetadataComponent;
+  fileName?: string;
+}
+
+/** Fired when a cached list was refreshed (or failed to refresh) in the background. `metadataType` is unset for the type list. */
+interface CacheRefreshEvent {
+  orgId: string;
+  metadataType?: string;
+  folder?: string;
+  failed?: boolean; // the cached list is unchanged; only its "offline" label is new
+}
+
+interface PinnedEntries {
+  orgId: string;
+  recent: Array<MetadataComponent & { ts: number }>; // newest first
+  favoriteTypes: string[];
+  favoriteItems: MetadataComponent[];
+}
+
+/** How strictly local changes are checked before a retrieve overwrites files (setting `conflictCheck`). */
+type ConflictCheckLevel = 'off' | 'unsaved' | 'standard' | 'strict';
+
+interface LocalConflict {
+  filePath: string;
+  reason: string;
+}
+
+interface RetrieveHistoryFile {
+  path: string; // absolute path in the project
+  snapshot?: string; // copy inside the entry directory, when the file existed before the retrieve
+  created?: boolean; // did not exist before the retrieve; restoring deletes it
+}
+
+interface RetrieveHistoryEntry {
+  id: string;
+  ts: number;
+  org: string;
+  label: string;
+  components: string[]; // Type:FullName
+  files: RetrieveHistoryFile[];
+}
+
+/** Pre-retrieve copies of a retrieve in progress; becomes a history entry when files were written. */
+interface RetrieveSnapshot {
+  id: string;
+  dir: string;
+  startedAt: number;
+  copies: Map<string, string>; // project path → copy in `dir`
+}
+
+type SfDeployFile = RetrievedFile & { lineNumber?: number; columnNumber?: number; problemType?: string };
+type SfDeployFailure = {
+  componentType?: string;
+  fullName?: string;
+  fileName?: string; // relative to the project
+  problem?: string;
+  problemType?: string;
+  lineNumber?: number | string;
+  columnNumber?: number | string;
+};
+type SfDeploy = {
+  status: number;
+  result?: {
+    success?: boolean;
+    status?: string;
+    checkOnly?: boolean;
+    files?: SfDeployFile[];
+    details?: { componentFailures?: SfDeployFailure | SfDeployFailure[] };
+  };
+  message?: string;
+  code?: string;
+  context?: string;
+};
+
+type SfProjectJson = { packageDirectories?: Array<{ path: string; default?: boolean }>; sourceApiVersion?: string };
+
 type SfConfigGet = { status: number; result: Array<{ name: string; value?: string }> };
-type SfAuthList = { status: number; result: Array<{ alias?: string; username: string; orgId: string }> };
+type SfAuthList = { status: number; result: SfOrgAuth[] };
+type SfOrgAuth = { alias?: string; username: string; orgId: string; instanceUrl?: string; isScratchOrg?: boolean; isSandbox?: boolean; isDevHub?: boolean };
+type SfOrgDisplay = { status: number; result: { apiVersion?: string; username?: string; alias?: string; instanceUrl?: string } };
 type SfListMetadataTypes = { status: number; result: { metadataObjects: MetadataType[] } };
 type SfListMetadata = { status: number; result: MetadataItem[] };
 type SfRetrieve = {
   status: number;
   result?: {
     success?: boolean;
-    files?: Array<{ filePath: string; state?: string; error?: string; fullName?: string; type?: string }>;
+    files?: RetrievedFile[];
     messages?: Array<{ fileName?: string; problem?: string }> | string;
   };
   message?: string;
@@ -56,17 +154,67 @@ type SfRetrieve = {
  * ===== Globals =====
  */
 const SF_BIN = process.platform === 'win32' ? 'sf.cmd' : 'sf';
+const DEFAULT_MANIFEST_PATH = path.join('manifest', 'package.xml');
 // TTL is now dynamic (1-30 days) based on user configuration. Default is 30 days, matching package.json default.
 let TTL_MS = 30 * 24 * 60 * 60 * 1000; // will be updated from settings on activation & config change
 
 let metadataTypesCache: CachedMetadataTypes | null = null;
 let metadataItemsCache: Map<string, CachedMetadataItems> = new Map();
 let cacheDirectory: string;
+let pinsDirectory: string;
+let historyDirectory: string;
+let lastPickedProjectFolder: vscode.WorkspaceFolder | undefined; // listed first in selectProjectFolder's picker
+const pinsCache = new Map<string, PinnedEntries>();
 
 let output: vscode.OutputChannel;
+let retrieveDiagnostics: vscode.DiagnosticCollection;
+let deployDiagnostics: vscode.DiagnosticCollection;
 
 const inflightItems = new Map<string, Promise<MetadataItem[]>>();
 
+/** Stale-while-revalidate bookkeeping, keyed like the caches. */
+const revalidating = new Set<string>();
+const refreshFailures = new Map<string, { message: string; ts: number }>();
+const REVALIDATE_BACKOFF_MS = 5 * 60 * 1000; // no background refresh of a key that failed this recently
+const cacheRefreshEmitter = new vscode.EventEmitter<CacheRefreshEvent>();
+const onDidRefreshCache = cacheRefreshEmitter.event;
+
+/** Folder-based types and the metadata type of the folders that hold their items. */
+const FOLDER_TYPES: Record<string, string> = {
+  Report: 'ReportFolder',
+  Dashboard: 'DashboardFolder',
+  EmailTemplate: 'EmailFolder',
+  Document: 'DocumentFolder'
+};
+
+/** Sub-directories of a decomposed `objects/<Object>/` folder and the child types they hold. */
+const OBJECT_CHILD_DIRECTORIES: Record<string, string> = {
+  fields: 'CustomField',
+  recordTypes: 'RecordType',
+  validationRules: 'ValidationRule',
+  listViews: 'ListView',
+  compactLayouts: 'CompactLayout',
+  webLinks: 'WebLink',
+  businessProcesses: 'BusinessProcess',
+  fieldSets: 'FieldSet',
+  sharingReasons: 'SharingReason',
+  indexes: 'Index'
+};
+
+/** Retrieve history kept per org, and how much of it the pickers show. */
+const MAX_RECENT = 50;
+const MAX_RECENT_IN_PICKER = 5;
+
+/** How many `sf org list metadata` calls the global search runs side by side. */
+const SEARCH_CONCURRENCY = 4;
+
+/** Preselected in "Recently Modified on Server" when the org has no favorite types. */
+const DEFAULT_RECENTLY_MODIFIED_TYPES = ['ApexClass', 'ApexTrigger', 'LightningComponentBundle', 'AuraDefinitionBundle', 'Flow'];
+
+/** Pseudo folder for items not filed in any folder; not returned when listing folders. */
+const UNFILED_PUBLIC_FOLDER = 'unfiled$public';
+const TYPES_WITH_UNFILED_FOLDER = new Set(['Report', 'EmailTemplate']);
+
 /**
  * ===== Error class for richer surfacing =====
  */
@@ -77,6 +225,8 @@ class SfCliError extends Error {
   exitCode?: number;
   stderr?: string;
   rawJson?: any;
+  targetOrg?: string; // --target-org of the failed command
+  cwd?: string; // project folder the failed command ran in
 
   constructor(message: string, opts?: Partial<SfCliError>) {
     super(message);
@@ -85,6 +235,49 @@ class SfCliError extends Error {
   }
 }
 
+/** Failures the user can do something about; see classifyCliError. */
+type CliErrorKind = 'expiredSession' | 'noAuth' | 'noTargetOrg' | 'unknownType' | 'network' | 'serverBusy';
+
+const CLI_ERROR_PATTERNS: Array<{ kind: CliErrorKind; codes: string[]; message: RegExp }> = [
+  {
+    kind: 'expiredSession',
+    codes: ['INVALID_SESSION_ID', 'RefreshTokenAuthError', 'AuthInfoRefreshError', 'ExpiredAccessTokenError'],
+    message: /expired (access|refresh) token|session (has )?expired|INVALID_SESSION_ID|invalid_grant/i
+  },
+  {
+    kind: 'noAuth',
+    codes: ['NamedOrgNotFoundError', 'NamedOrgNotFound', 'NoAuthInfoFound', 'AuthInfoCreationError'],
+    message: /No authorization information found|No org configuration found for name/i
+  },
+  {
+    kind: 'noTargetOrg',
+    codes: ['NoDefaultEnvError', 'NoOrgFound'],
+    message: /No default (environment|target org|username) found/i
+  },
+  {
+    kind: 'unknownType',
+    codes: ['RegistryError', 'TypeInferenceError', 'UNKNOWN_TYPE'],
+    message: /Missing metadata type definition|Unknown metadata type|is not a valid metadata type|UNKNOWN_TYPE/i
+  },
+  {
+    kind: 'network',
+    codes: ['ENOTFOUND', 'ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN'],
+    message: /ENOTFOUND|ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|socket hang up|getaddrinfo|network error/i
+  },
+  {
+    kind: 'serverBusy',
+    codes: ['REQUEST_LIMIT_EXCEEDED', 'SERVER_UNAVAILABLE', 'MetadataApiRetrieveTimeout', 'PollingClientTimeoutError'],
+    message: /REQUEST_LIMIT_EXCEEDED|SERVER_UNAVAILABLE|Service Unavailable|\b503\b|polling time ?out|client has timed out/i
+  }
+];
+
+function classifyCliError(err: unknown): CliErrorKind | undefined {
+  if (!(err instanceof Error)) return undefined;
+  const codeStr = err instanceof SfCliError ? err.codeStr : undefined;
+  const text = err instanceof SfCliError ? `${err.message}\n${err.stderr ?? ''}` : err.message;
+  return CLI_ERROR_PATTERNS.find(p => (codeStr && p.codes.includes(codeStr)) || p.message.test(text))?.kind;
+}
+
 /**
  * ===== Output helpers =====
  */
@@ -96,9 +289,27 @@ function pretty(obj: any) {
   try { return JSON.stringify(obj, null, 2); } catch { return String(obj); }
 }
 
-/** Show a descriptive toast (with "Open Output" button) and log details to Output. */
-function showCliError(prefix: string, err: unknown) {
+/**
+ * Show a descriptive toast (with "Open Output" button) and log details to Output.
+ * Recognised failures get a recovery action; `retry` adds a "Retry" button and runs
+ * again after a successful recovery.
+ */
+function showCliError(prefix: string, err: unknown, retry?: () => unknown) {
   const actionOpen = 'Open Output';
+  const actionRetry = 'Retry';
+  const recovery = getRecoveryAction(err);
+  const actions = [recovery?.title, retry && actionRetry, actionOpen].filter((a): a is string => Boolean(a));
+  const onChoice = async (choice?: string) => {
+    if (choice === actionOpen) output.show(true);
+    else if (choice === actionRetry) retry?.();
+    else if (recovery && choice === recovery.title) {
+      try {
+        if (await recovery.run() && retry) retry();
+      } catch (recoveryErr) {
+        showCliError(`${recovery.title} failed`, recoveryErr);
+      }
+    }
+  };
 
   if (err instanceof SfCliError) {
     const parts = [
@@ -108,9 +319,7 @@ function showCliError(prefix: string, err: unknown) {
       err.context && `• Context: ${err.context}`,
       (err.exitCode !== undefined) && `• Exit: ${err.exitCode}`
     ].filter(Boolean);
-    vscode.window.showErrorMessage(parts.join('\n'), actionOpen).then(choice => {
-      if (choice === actionOpen) output.show(true);
-    });
+    vscode.window.showErrorMessage(parts.join('\n'), ...actions).then(onChoice);
 
     logErr(`${prefix}`);
     if (err.stderr) logErr(`stderr: ${err.stderr.trim()}`);
@@ -122,12 +331,28 @@ function showCliError(prefix: string, err: unknown) {
   }
 
   const msg = err instanceof Error ? err.message : String(err);
-  vscode.window.showErrorMessage(`${prefix}\n• ${msg}`, actionOpen).then(choice => {
-    if (choice === actionOpen) output.show(true);
-  });
+  vscode.window.showErrorMessage(`${prefix}\n• ${msg}`, ...actions).then(onChoice);
   logErr(`${prefix}: ${msg}`);
 }
 
+/** Recovery offered for a recognised failure; `run` resolves true when it worked. */
+function getRecoveryAction(err: unknown): { title: string; run: () => Promise<boolean> } | undefined {
+  const targetOrg = err instanceof SfCliError ? err.targetOrg : undefined;
+  const cwd = (err instanceof SfCliError ? err.cwd : undefined) ?? getProjectFolder()?.uri.fsPath;
+  if (!cwd) return undefined;
+  switch (classifyCliError(err)) {
+    case 'expiredSession':
+    case 'noAuth':
+      return { title: 'Re-authenticate Org', run: () => reauthenticateOrg(cwd, targetOrg) };
+    case 'noTargetOrg':
+      return { title: 'Set Default Org', run: () => switchDefaultOrg(cwd) };
+    case 'unknownType':
+      return { title: 'Refresh Metadata Types', run: () => refreshMetadataTypes(cwd, targetOrg) };
+    default:
+      return undefined;
+  }
+}
+
 /**
  * ===== Cache management =====
  */
@@ -142,9 +367,14 @@ function getMetadataTypesCachePath(orgId: string): string {
   return path.join(cacheDirectory, `metadata-types-${orgId}.json`);
 }
 
-function getMetadataItemsCachePath(orgId: string, metadataType: string): string {
+function getMetadataItemsCachePath(orgId: string, metadataType: string, folder?: string): string {
   const safeMetadataType = metadataType.replace(/[^a-zA-Z0-9]/g, '_');
-  return path.join(cacheDirectory, `metadata-items-${orgId}-${safeMetadataType}.json`);
+  const safeFolder = folder ? `-${folder.replace(/[^a-zA-Z0-9]/g, '_')}` : '';
+  return path.join(cacheDirectory, `metadata-items-${orgId}-${safeMetadataType}${safeFolder}.json`);
+}
+
+function getMetadataItemsCacheKey(orgId: string, metadataType: string, folder?: string): string {
+  return folder ? `${orgId}:${metadataType}:${folder}` : `${orgId}:${metadataType}`;
 }
 
 function isFresh(ts?: number): boolean {
@@ -152,14 +382,67 @@ function isFresh(ts?: number): boolean {
   return (Date.now() - ts) < TTL_MS;
 }
 
+function getMetadataTypesCacheKey(orgId: string): string {
+  return `${orgId}:*types*`;
+}
+
+/** "3 hours ago", "12 days ago"… */
+function formatAge(ts: number): string {
+  const minutes = Math.floor((Date.now() - ts) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} minute(s) ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour(s) ago`;
+  return `${Math.floor(hours / 24)} day(s) ago`;
+}
+
+/**
+ * Label for a list served from an expired cache entry, or undefined when it is fresh.
+ * Used as picker title so stale data is never shown unannounced.
+ */
+function describeCacheState(cacheKey: string, ts?: number): string | undefined {
+  const failure = refreshFailures.get(cacheKey);
+  if (failure && ts) return `Offline: showing data cached ${formatAge(ts)} (${failure.message})`;
+  if (!ts || isFresh(ts)) return undefined;
+  return revalidating.has(cacheKey)
+    ? `Cached ${formatAge(ts)}, refreshing…`
+    : `Cached ${formatAge(ts)}`;
+}
+
+function recordRefreshFailure(cacheKey: string, err: unknown) {
+  refreshFailures.set(cacheKey, { message: err instanceof Error ? err.message : String(err), ts: Date.now() });
+}
+
+/**
+ * Refresh an expired cache entry without blocking the caller; listeners of
+ * onDidRefreshCache (open pickers, the tree view) pick up the new list. A key whose
+ * refresh failed is left alone for REVALIDATE_BACKOFF_MS, so listeners that read the
+ * stale entry again (and thereby revalidate it) can't loop while offline.
+ */
+function revalidateInBackground(cacheKey: string, refresh: () => Promise<unknown>, event: CacheRefreshEvent) {
+  const failure = refreshFailures.get(cacheKey);
+  if (revalidating.has(cacheKey) || (failure && Date.now() - failure.ts < REVALIDATE_BACKOFF_MS)) return;
+  revalidating.add(cacheKey);
+  refresh().then(() => {
+    refreshFailures.delete(cacheKey);
+    logInfo(`Refreshed stale cache ${cacheKey}`);
+    revalidating.delete(cacheKey);
+    cacheRefreshEmitter.fire(event);
+  }, err => {
+    recordRefreshFailure(cacheKey, err);
+    logWarn(`Background refresh of ${cacheKey} failed: ${String(err)}`);
+    revalidating.delete(cacheKey);
+    cacheRefreshEmitter.fire({ ...event, failed: true });
+  });
+}
+
 async function loadMetadataTypesFromDisk(orgId: string): Promise<CachedMetadataTypes | null> {
   try {
     const cachePath = getMetadataTypesCachePath(orgId);
     if (!fs.existsSync(cachePath)) return null;
     const data = await fs.promises.readFile(cachePath, 'utf8');
-    const parsed: CachedMetadataTypes = JSON.parse(data);
-    if (!isFresh(parsed.ts)) return null;
-    return parsed;
+    // Stale entries are still returned: they are served while revalidating and as offline fallback
+    return JSON.parse(data) as CachedMetadataTypes;
   } catch (error) {
     logErr(`Error loading metadata types cache: ${String(error)}`);
     return null;
@@ -175,14 +458,12 @@ async function saveMetadataTypesToDisk(cache: CachedMetadataTypes): Promise<void
   }
 }
 
-async function loadMetadataItemsFromDisk(orgId: string, metadataType: string): Promise<CachedMetadataItems | null> {
+async function loadMetadataItemsFromDisk(orgId: string, metadataType: string, folder?: string): Promise<CachedMetadataItems | null> {
   try {
-    const cachePath = getMetadataItemsCachePath(orgId, metadataType);
+    const cachePath = getMetadataItemsCachePath(orgId, metadataType, folder);
     if (!fs.existsSync(cachePath)) return null;
     const data = await fs.promises.readFile(cachePath, 'utf8');
-    const parsed: CachedMetadataItems = JSON.parse(data);
-    if (!isFresh(parsed.ts)) return null;
-    return parsed;
+    return JSON.parse(data) as CachedMetadataItems;
   } catch (error) {
     logErr(`Error loading metadata items cache: ${String(error)}`);
     return null;
@@ -191,7 +472,7 @@ async function loadMetadataItemsFromDisk(orgId: string, metadataType: string): P
 
 async function saveMetadataItemsToDisk(cache: CachedMetadataItems): Promise<void> {
   try {
-    const cachePath = getMetadataItemsCachePath(cache.orgId, cache.metadataType);
+    const cachePath = getMetadataItemsCachePath(cache.orgId, cache.metadataType, cache.folder);
     await fs.promises.writeFile(cachePath, JSON.stringify({ ...cache, ts: Date.now() }, null, 2));
   } catch (error) {
     logErr(`Error saving metadata items cache: ${String(error)}`);
@@ -208,8 +489,7 @@ async function loadAllCachesFromDisk(): Promise<void> {
         try {
           const data = await fs.promises.readFile(path.join(cacheDirectory, file), 'utf8');
           const cache: CachedMetadataItems = JSON.parse(data);
-          if (!isFresh(cache.ts)) continue;
-          const cacheKey = `${cache.orgId}:${cache.metadataType}`;
+          const cacheKey = getMetadataItemsCacheKey(cache.orgId, cache.metadataType, cache.folder);
           metadataItemsCache.set(cacheKey, cache);
         } catch (error) {
           logErr(`Error loading cache file ${file}: ${String(error)}`);
@@ -221,22 +501,170 @@ async function loadAllCachesFromDisk(): Promise<void> {
   }
 }
 
+/**
+ * ===== Recent & favorites =====
+ * Per-org retrieve history and starred types/items, stored in global storage next
+ * to the cache directory. Not affected by the cache settings.
+ */
+function initializePinsDirectory(context: vscode.ExtensionContext) {
+  pinsDirectory = path.join(context.globalStorageUri.fsPath, 'pins');
+  if (!fs.existsSync(pinsDirectory)) {
+    fs.mkdirSync(pinsDirectory, { recursive: true });
+  }
+}
+
+function getPinsPath(orgId: string): string {
+  return path.join(pinsDirectory, `pins-${orgId}.json`);
+}
+
+async function loadPins(orgId: string): Promise<PinnedEntries> {
+  const cached = pinsCache.get(orgId);
+  if (cached) return cached;
+
+  let pins: PinnedEntries = { orgId, recent: [], favoriteTypes: [], favoriteItems: [] };
+  try {
+    const pinsPath = getPinsPath(orgId);
+    if (fs.existsSync(pinsPath)) {
+      pins = { ...pins, ...JSON.parse(await fs.promises.readFile(pinsPath, 'utf8')) };
+    }
+  } catch (error) {
+    logErr(`Error loading recent/favorites: ${String(error)}`);
+  }
+  pinsCache.set(orgId, pins);
+  return pins;
+}
+
+async function savePins(pins: PinnedEntries): Promise<void> {
+  try {
+    await fs.promises.writeFile(getPinsPath(pins.orgId), JSON.stringify(pins, null, 2));
+  } catch (error) {
+    logErr(`Error saving recent/favorites: ${String(error)}`);
+  }
+}
+
+async function recordRecentRetrieves(orgId: string, components: MetadataComponent[]): Promise<void> {
+  const pins = await loadPins(orgId);
+  const ts = Date.now();
+  const keys = new Set(components.map(c => `${c.type}:${c.fullName}`));
+  pins.recent = [
+    ...components.map(c => ({ type: c.type, fullName: c.fullName, ts })),
+    ...pins.recent.filter(r => !keys.has(`${r.type}:${r.fullName}`))
+  ].slice(0, MAX_RECENT);
+  await savePins(pins);
+}
+
+async function toggleFavoriteType(orgId: string, metadataType: string): Promise<void> {
+  const pins = await loadPins(orgId);
+  pins.favoriteTypes = pins.favoriteTypes.includes(metadataType)
+    ? pins.favoriteTypes.filter(t => t !== metadataType)
+    : [...pins.favoriteTypes, metadataType];
+  await savePins(pins);
+}
+
+async function toggleFavoriteItem(orgId: string, component: MetadataComponent): Promise<void> {
+  const pins = await loadPins(orgId);
+  const isSame = (c: MetadataComponent) => c.type === component.type && c.fullName === component.fullName;
+  pins.favoriteItems = pins.favoriteItems.some(isSame)
+    ? pins.favoriteItems.filter(c => !isSame(c))
+    : [...pins.favoriteItems, component];
+  await savePins(pins);
+}
+
 /**
  * ===== CLI helper =====
  * Spawns `sf ... --json`, parses stdout as JSON (even on non-zero exit).
- * Rejects with SfCliError carrying rich details.
+ * Rejects with SfCliError carrying rich details. Transient failures of read-only
+ * commands (`{ retry: true }`) are retried with exponential backoff (settings `retry.*`).
  */
-function runSfJson<T extends { status?: number; message?: string; code?: string; context?: string }>(
+type SfJson = { status?: number; message?: string; code?: string; context?: string };
+
+/** Progress notifications opened by withCliProgress, so retries can be reported where the user is looking. */
+const retryProgress = new WeakMap<vscode.CancellationToken, vscode.Progress<{ message?: string; increment?: number }>>();
+
+/** vscode.window.withProgress whose notification also shows CLI retry attempts. */
+function withCliProgress<R>(
+  options: vscode.ProgressOptions,
+  task: (progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken) => Thenable<R>
+): Thenable<R> {
+  return vscode.window.withProgress(options, (progress, token) => {
+    retryProgress.set(token, progress);
+    return task(progress, token);
+  });
+}
+
+function getRetryPolicy(): { maxAttempts: number; initialDelayMs: number; maxDelayMs: number } {
+  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
+  return {
+    maxAttempts: Math.max(1, Math.floor(Number(config.get('retry.maxAttempts', 3)) || 1)),
+    initialDelayMs: Math.max(0, Number(config.get('retry.initialDelayMs', 2000)) || 0),
+    maxDelayMs: Math.max(0, Number(config.get('retry.maxDelayMs', 30000)) || 0)
+  };
+}
+
+/** Network hiccups and a busy or slow Metadata API; anything else fails right away. */
+function isRetryableCliError(err: unknown): boolean {
+  const kind = classifyCliError(err);
+  return kind === 'network' || kind === 'serverBusy';
+}
+
+/** Wait `ms`, rejecting as soon as `token` is cancelled. */
+function delayUnlessCancelled(ms: number, token?: vscode.CancellationToken): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (token?.isCancellationRequested) return reject(new SfCliError('Operation cancelled'));
+    const timer = setTimeout(() => {
+      listener?.dispose();
+      resolve();
+    }, ms);
+    const listener = token?.onCancellationRequested(() => {
+      clearTimeout(timer);
+      listener?.dispose();
+      reject(new SfCliError('Operation cancelled'));
+    });
+  });
+}
+
+async function runSfJson<T extends SfJson>(
+  args: string[],
+  cwd: string,
+  token?: vscode.CancellationToken,
+  options: { retry?: boolean } = {}
+): Promise<T> {
+  // Deploys, logins and config changes are not safe to repeat: a single attempt
+  if (!options.retry) return runSfJsonOnce<T>(args, cwd, token);
+
+  const { maxAttempts, initialDelayMs, maxDelayMs } = getRetryPolicy();
+  const progress = token && retryProgress.get(token);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await runSfJsonOnce<T>(args, cwd, token);
+    } catch (err) {
+      if (attempt >= maxAttempts || token?.isCancellationRequested || !isRetryableCliError(err)) throw err;
+
+      const delayMs = Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs);
+      const reason = (err instanceof Error ? err.message : String(err)).split('\n')[0];
+      logWarn(`sf ${args.join(' ')} failed (${reason}); attempt ${attempt + 1} of ${maxAttempts} in ${delayMs} ms`);
+      progress?.report({ message: `${reason} — retrying in ${Math.ceil(delayMs / 1000)} s (attempt ${attempt + 1} of ${maxAttempts})…` });
+      await delayUnlessCancelled(delayMs, token);
+      progress?.report({ message: `Attempt ${attempt + 1} of ${maxAttempts}…` });
+    }
+  }
+}
+
+function runSfJsonOnce<T extends SfJson>(
   args: string[],
   cwd: string,
   token?: vscode.CancellationToken
 ): Promise<T> {
+  const targetOrgIndex = args.indexOf('--target-org');
+  const targetOrg = targetOrgIndex >= 0 ? args[targetOrgIndex + 1] : undefined;
+
   return new Promise((resolve, reject) => {
     const cp = spawn(SF_BIN, [...args, '--json'], { cwd, shell: false });
     let out = '';
     let err = '';
 
-    token?.onCancellationRequested(() => {
+    const listener = token?.onCancellationRequested(() => {
       try { cp.kill(); } catch { /* noop */ }
       reject(new SfCliError('Operation cancelled'));
     });
@@ -248,9 +676,13 @@ function runSfJson<T extends { status?: number; message?: string; code?: string;
       if (s.trim()) logWarn(`sf ${args.join(' ')}: ${s.trim()}`);
     });
 
-    cp.on('error', (e) => reject(new SfCliError(String(e))));
+    cp.on('error', (e) => {
+      listener?.dispose();
+      reject(new SfCliError(String(e), { targetOrg, cwd }));
+    });
 
     cp.on('close', (code) => {
+      listener?.dispose();
       const tryParse = (): any | undefined => {
         try { return JSON.parse(out); } catch { return undefined; }
       };
@@ -267,10 +699,12 @@ function runSfJson<T extends { status?: number; message?: string; code?: string;
             status: json.status,
             exitCode: (code ?? json.exitCode) ?? undefined,
             stderr: err,
-            rawJson: json
+            rawJson: json,
+            targetOrg,
+            cwd
           }));
         }
-        return reject(new SfCliError(err || `sf ${args.join(' ')} failed with exit ${code}`, { exitCode: code ?? undefined, stderr: err }));
+        return reject(new SfCliError(err || `sf ${args.join(' ')} failed with exit ${code}`, { exitCode: code ?? undefined, stderr: err, targetOrg, cwd }));
       }
 
       // Exit 0 but internal status != 0
@@ -284,7 +718,9 @@ function runSfJson<T extends { status?: number; message?: string; code?: string;
           context: (json as any).context,
           status: json.status,
           stderr: err,
-          rawJson: json
+          rawJson: json,
+          targetOrg,
+          cwd
         }));
       }
 
@@ -293,6 +729,22 @@ function runSfJson<T extends { status?: number; message?: string; code?: string;
   });
 }
 
+/** Run `worker` over `tasks` with at most `limit` in flight; stops picking up tasks once cancelled. */
+async function runWithConcurrency<T>(
+  tasks: T[],
+  limit: number,
+  worker: (task: T) => Promise<void>,
+  token?: vscode.CancellationToken
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, tasks.length) }, async () => {
+    while (next < tasks.length && !token?.isCancellationRequested) {
+      await worker(tasks[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
 /** Extract a concise human message from sf JSON error/success payloads. */
 function buildHumanMessage(json: any): string | undefined {
   // Priority 1: explicit message
@@ -324,33 +776,258 @@ function buildHumanMessage(json: any): string | undefined {
 }
 
 /**
- * ===== Current org helper =====
+ * ===== Project folder resolution =====
+ * In multi-root workspaces, commands run in the folder holding `sfdx-project.json`
+ * that the clicked resource or active editor belongs to, or the one the user picks.
+ */
+function getSfdxProjectFolders(): vscode.WorkspaceFolder[] {
+  return (vscode.workspace.workspaceFolders ?? []).filter(f => fs.existsSync(path.join(f.uri.fsPath, 'sfdx-project.json')));
+}
+
+function getSfdxProjectFolderOf(uri?: vscode.Uri): vscode.WorkspaceFolder | undefined {
+  const folder = uri && vscode.workspace.getWorkspaceFolder(uri);
+  return folder && getSfdxProjectFolders().includes(folder) ? folder : undefined;
+}
+
+/**
+ * Folder for work that no command started (tree view, status bar, `nakodx-org:` reads):
+ * the active editor's project, else the first project (or first folder) in the
+ * workspace. Commands get theirs from registerProjectCommand and pass it down.
+ */
+function getProjectFolder(): vscode.WorkspaceFolder | undefined {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  return getSfdxProjectFolderOf(vscode.window.activeTextEditor?.document.uri)
+    ?? getSfdxProjectFolders()[0]
+    ?? folders[0];
+}
+
+/** Settle the project folder for a command, prompting when several projects could apply. */
+async function selectProjectFolder(uri?: vscode.Uri): Promise<vscode.WorkspaceFolder | undefined> {
+  const projects = getSfdxProjectFolders();
+  const resolved = getSfdxProjectFolderOf(uri)
+    ?? getSfdxProjectFolderOf(vscode.window.activeTextEditor?.document.uri)
+    ?? (projects.length <= 1 ? projects[0] ?? vscode.workspace.workspaceFolders?.[0] : undefined);
+  if (resolved) return resolved;
+  if (!projects.length) {
+    vscode.window.showErrorMessage('No workspace folder open');
+    return undefined;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    projects.map(f => ({ label: f.name, description: f === lastPickedProjectFolder ? '(last used)' : undefined, detail: f.uri.fsPath, folder: f }))
+      .sort((a, b) => Number(Boolean(b.description)) - Number(Boolean(a.description))),
+    { placeHolder: 'Select the Salesforce project to run in' }
+  );
+  if (picked) lastPickedProjectFolder = picked.folder;
+  return picked?.folder;
+}
+
+/**
+ * Register a command that first settles which Salesforce project folder it runs in;
+ * the callback gets the folder's path (`cwd`) before the command's own arguments.
+ */
+function registerProjectCommand(command: string, callback: (cwd: string, ...args: any[]) => unknown): vscode.Disposable {
+  return vscode.commands.registerCommand(command, async (...args: any[]) => {
+    const uri = args[0] instanceof vscode.Uri ? args[0] : undefined;
+    const folder = await selectProjectFolder(uri);
+    if (!folder) return;
+    return callback(folder.uri.fsPath, ...args);
+  });
+}
+
+/**
+ * ===== Org resolution =====
+ * The target-org comes from the project's and the global `.sf/config.json`, aliases
+ * from `~/.sfdx/alias.json` and org records from the auth files in `~/.sfdx`. Results
+ * are kept in memory until one of those files changes; the CLI is only asked when
+ * the files do not have the answer.
  */
-async function getCurrentOrgId(): Promise<string | null> {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-  if (!workspaceFolder) return null;
-  const cwd = workspaceFolder.uri.fsPath;
+type Resolved<T> = { value: T; source: 'config files' | 'CLI' };
+
+const SF_GLOBAL_DIR = path.join(os.homedir(), '.sf');
+const SFDX_GLOBAL_DIR = path.join(os.homedir(), '.sfdx');
+const defaultTargetOrgCache = new Map<string, Promise<Resolved<string | undefined>>>(); // cwd → target-org
+const orgAuthCache = new Map<string, Promise<Resolved<SfOrgAuth | undefined>>>(); // alias/username → auth record
+const orgResolutionEmitter = new vscode.EventEmitter<void>();
+const onDidChangeOrgResolution = orgResolutionEmitter.event;
+
+function registerOrgResolution(context: vscode.ExtensionContext) {
+  const watchers = [
+    vscode.workspace.createFileSystemWatcher('**/.sf/config.json'),
+    vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(SF_GLOBAL_DIR), '*.json')),
+    vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(SFDX_GLOBAL_DIR), '*.json'))
+  ];
+  for (const watcher of watchers) {
+    context.subscriptions.push(
+      watcher,
+      watcher.onDidChange(uri => invalidateOrgResolution(uri.fsPath)),
+      watcher.onDidCreate(uri => invalidateOrgResolution(uri.fsPath)),
+      watcher.onDidDelete(uri => invalidateOrgResolution(uri.fsPath))
+    );
+  }
+  context.subscriptions.push(orgResolutionEmitter);
+}
+
+function invalidateOrgResolution(changedPath: string) {
+  if (defaultTargetOrgCache.size || orgAuthCache.size) logInfo(`Org resolution cache cleared (${changedPath} changed)`);
+  defaultTargetOrgCache.clear();
+  orgAuthCache.clear();
+  orgResolutionEmitter.fire();
+}
+
+/** Memoize a resolution; failed lookups are dropped so the next call tries again. */
+function memoizeResolution<T>(cache: Map<string, Promise<Resolved<T>>>, key: string, resolve: () => Promise<Resolved<T>>): { promise: Promise<Resolved<T>>; hit: boolean } {
+  const cached = cache.get(key);
+  if (cached) return { promise: cached, hit: true };
+  const promise = resolve();
+  cache.set(key, promise);
+  promise.catch(() => { if (cache.get(key) === promise) cache.delete(key); });
+  return { promise, hit: false };
+}
 
+async function readJsonFile<T>(filePath: string): Promise<T | undefined> {
   try {
-    const cfg = await runSfJson<SfConfigGet>(['config', 'get', 'target-org'], cwd);
-    const aliasOrUsername = cfg.result?.[0]?.value;
-    if (!aliasOrUsername) return null;
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as T;
+  } catch {
+    return undefined;
+  }
+}
 
-    const auth = await runSfJson<SfAuthList>(['org', 'list', 'auth'], cwd);
-    const rec = auth.result.find(r => r.alias === aliasOrUsername || r.username === aliasOrUsername);
-    return rec?.orgId ?? null;
+/**
+ * `targetOrg` (alias or username) overrides the project's default target-org.
+ */
+async function getCurrentOrgId(cwd: string, targetOrg?: string): Promise<string | null> {
+  const started = Date.now();
+  try {
+    const target = targetOrg
+      ? { value: targetOrg, source: 'argument', hit: true } // nothing to look up
+      : await resolveDefaultTargetOrg(cwd);
+    if (!target.value) return null;
+
+    const auth = await resolveOrgAuth(target.value, cwd);
+    // Memory hits are not logged; a miss shows how long the files or the CLI took
+    if (!target.hit || !auth.hit) {
+      const sources = [...new Set([target, auth].filter(r => !r.hit).map(r => r.source))].join(', ');
+      logInfo(`Resolved org ${target.value} → ${auth.value?.orgId ?? 'not authenticated'} in ${Date.now() - started} ms (${sources})`);
+    }
+    return auth.value?.orgId ?? null;
   } catch (e) {
     logErr(`Error getting org ID: ${String(e)}`);
     return null;
   }
 }
 
+/** The project's default target-org (alias or username), if one is set. */
+async function getDefaultTargetOrg(cwd: string): Promise<string | undefined> {
+  return (await resolveDefaultTargetOrg(cwd)).value;
+}
+
+async function resolveDefaultTargetOrg(cwd: string): Promise<Resolved<string | undefined> & { hit: boolean }> {
+  const { promise, hit } = memoizeResolution(defaultTargetOrgCache, cwd, async () => {
+    // Same precedence as the CLI: environment, project config, global config
+    const fromFiles = process.env.SF_TARGET_ORG
+      ?? (await readJsonFile<Record<string, string>>(path.join(cwd, '.sf', 'config.json')))?.['target-org']
+      ?? (await readJsonFile<Record<string, string>>(path.join(SF_GLOBAL_DIR, 'config.json')))?.['target-org'];
+    if (fromFiles) return { value: fromFiles, source: 'config files' };
+
+    // e.g. a legacy sfdx-config.json the CLI still honours
+    const cfg = await runSfJson<SfConfigGet>(['config', 'get', 'target-org'], cwd);
+    return { value: cfg.result?.[0]?.value, source: 'CLI' };
+  });
+  return { ...await promise, hit };
+}
+
+/** The auth record of an alias or username. */
+async function findOrgAuth(aliasOrUsername: string, cwd: string): Promise<SfOrgAuth | undefined> {
+  return (await resolveOrgAuth(aliasOrUsername, cwd)).value;
+}
+
+async function resolveOrgAuth(aliasOrUsername: string, cwd: string): Promise<Resolved<SfOrgAuth | undefined> & { hit: boolean }> {
+  const { promise, hit } = memoizeResolution(orgAuthCache, aliasOrUsername, async () => {
+    const aliases = (await readJsonFile<{ orgs?: Record<string, string> }>(path.join(SFDX_GLOBAL_DIR, 'alias.json')))?.orgs ?? {};
+    const username = aliases[aliasOrUsername] ?? aliasOrUsername;
+    const authFile = await readJsonFile<{ orgId?: string; instanceUrl?: string; isScratch?: boolean; isSandbox?: boolean; isDevHub?: boolean; devHubUsername?: string }>(
+      path.join(SFDX_GLOBAL_DIR, `${username}.json`)
+    );
+    if (authFile?.orgId) {
+      return {
+        value: {
+          alias: Object.keys(aliases).find(a => aliases[a] === username),
+          username,
+          orgId: authFile.orgId,
+          instanceUrl: authFile.instanceUrl,
+          isScratchOrg: authFile.isScratch ?? Boolean(authFile.devHubUsername),
+          isSandbox: authFile.isSandbox,
+          isDevHub: authFile.isDevHub
+        },
+        source: 'config files'
+      };
+    }
+
+    const auth = await runSfJson<SfAuthList>(['org', 'list', 'auth'], cwd);
+    return { value: auth.result.find(r => r.alias === aliasOrUsername || r.username === aliasOrUsername), source: 'CLI' };
+  });
+  return { ...await promise, hit };
+}
+
+/** Scratch, sandbox or production, from the auth flags or, failing that, the instance URL. */
+function getOrgKind(org: SfOrgAuth): 'Scratch' | 'Sandbox' | 'Production' {
+  if (org.isScratchOrg) return 'Scratch';
+  if (org.isSandbox) return 'Sandbox';
+  const host = (() => {
+    try { return new URL(org.instanceUrl ?? '').hostname; } catch { return ''; }
+  })();
+  if (host.includes('.scratch.')) return 'Scratch';
+  if (host.includes('.sandbox.') || host.split('.')[0].includes('--') || /^cs\d+\./.test(host)) return 'Sandbox';
+  return 'Production';
+}
+
+/** Append `--target-org` when an explicit org was chosen; otherwise sf uses the project default. */
+function withTargetOrg(args: string[], targetOrg?: string): string[] {
+  return targetOrg ? [...args, '--target-org', targetOrg] : args;
+}
+
+/** Pick any authenticated org; resolves to its alias (or username when it has none). */
+async function showOrgQuickPick(cwd: string, placeHolder: string = 'Select an org to retrieve from', exclude?: string): Promise<string | undefined> {
+  const [auth, defaultOrg] = await Promise.all([
+    runSfJson<SfAuthList>(['org', 'list', 'auth'], cwd),
+    getDefaultTargetOrg(cwd).catch(() => undefined)
+  ]);
+
+  const orgs = auth.result.filter(r => !exclude || (r.alias !== exclude && r.username !== exclude));
+  const items: Array<vscode.QuickPickItem & { targetOrg: string }> = orgs.map(r => {
+    const isDefault = defaultOrg !== undefined && (r.alias === defaultOrg || r.username === defaultOrg);
+    return {
+      label: r.alias ?? r.username,
+      description: [r.alias ? r.username : undefined, isDefault ? '(default)' : undefined].filter(Boolean).join(' '),
+      detail: [r.orgId, r.instanceUrl].filter(Boolean).join(' | '),
+      targetOrg: r.alias ?? r.username
+    };
+  });
+
+  if (!items.length) {
+    vscode.window.showErrorMessage('No authenticated orgs found. Run `sf org login web` first.');
+    return undefined;
+  }
+
+  const selectedItem = await vscode.window.showQuickPick(items, {
+    placeHolder,
+    matchOnDescription: true,
+    matchOnDetail: true
+  });
+
+  return selectedItem?.targetOrg;
+}
+
 /**
  * ===== VS Code events =====
  */
 export async function activate(context: vscode.ExtensionContext) {
   output = vscode.window.createOutputChannel('NAKODX');
   output.show(true);
+  retrieveDiagnostics = vscode.languages.createDiagnosticCollection('nakodx-retrieve');
+  deployDiagnostics = vscode.languages.createDiagnosticCollection('nakodx-deploy');
+  context.subscriptions.push(retrieveDiagnostics, deployDiagnostics);
   logInfo('NAKODX extension activating…');
 
   // Initialize TTL from user settings
@@ -364,10 +1041,12 @@ export async function activate(context: vscode.ExtensionContext) {
   }));
 
   initializeCacheDirectory(context);
+  initializePinsDirectory(context);
+  initializeHistoryDirectory(context);
   await loadAllCachesFromDisk();
 
   try {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? process.cwd();
+    const workspaceFolder = getProjectFolder()?.uri.fsPath ?? process.cwd();
     // Not all sf versions print JSON for --version; ignore errors.
     await runSfJson<any>(['--version'], workspaceFolder).then(v => {
       logInfo(`sf --version returned JSON`);
@@ -375,19 +1054,102 @@ export async function activate(context: vscode.ExtensionContext) {
     }).catch(() => {});
   } catch {}
 
-  const retrieveCmd = vscode.commands.registerCommand('nakodx.retrieveFileFromServerCached', () => {
-    retrieveFileFromServer(true);
+  const retrieveCmd = registerProjectCommand('nakodx.retrieveFileFromServerCached', (cwd, args?: RetrieveRequest | RetrieveRequest[]) => {
+    if (args && !(args instanceof vscode.Uri)) {
+      retrieveFromRequests(cwd, Array.isArray(args) ? args : [args]);
+    } else {
+      retrieveFileFromServer(cwd, true);
+    }
+  });
+
+  const retrieveManyCmd = registerProjectCommand('nakodx.retrieveMultipleFilesFromServer', cwd => {
+    retrieveFileFromServer(cwd, true, true);
+  });
+
+  const retrieveFromOrgCmd = registerProjectCommand('nakodx.retrieveFileFromOrg', async cwd => {
+    try {
+      const targetOrg = await showOrgQuickPick(cwd);
+      if (targetOrg) await retrieveFileFromServer(cwd, true, false, targetOrg);
+    } catch (err) {
+      showCliError('Failed to list authenticated orgs', err);
+    }
+  });
+
+  const refreshCmd = registerProjectCommand('nakodx.refreshFromServer', (cwd, uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+    refreshFromServer(cwd, getCommandTargets(uri, uris));
+  });
+
+  const deployFileCmd = registerProjectCommand('nakodx.deployFile', (cwd, uri?: vscode.Uri) => {
+    deployToServer(cwd, getCommandTargets(uri));
+  });
+
+  const deploySelectionCmd = registerProjectCommand('nakodx.deploySelection', (cwd, uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+    deployToServer(cwd, getCommandTargets(uri, uris));
+  });
+
+  const validateDeployCmd = registerProjectCommand('nakodx.validateDeploy', (cwd, uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+    deployToServer(cwd, getCommandTargets(uri, uris), true);
+  });
+
+  const recentlyModifiedCmd = registerProjectCommand('nakodx.recentlyModifiedOnServer', cwd => {
+    showRecentlyModifiedOnServer(cwd);
   });
 
-  const deleteTypesCacheCmd = vscode.commands.registerCommand('nakodx.deleteTypesCache', () => {
-    deleteTypesCache();
+  const retrieveRecentCmd = registerProjectCommand('nakodx.retrieveRecent', cwd => {
+    retrieveRecent(cwd);
   });
 
-  const deleteItemsCacheCmd = vscode.commands.registerCommand('nakodx.deleteItemsCache', () => {
-    deleteItemsCache();
+  const addToManifestCmd = registerProjectCommand('nakodx.addToManifest', cwd => {
+    addToManifest(cwd);
   });
 
-  context.subscriptions.push(retrieveCmd, deleteTypesCacheCmd, deleteItemsCacheCmd, output);
+  const retrieveManifestCmd = registerProjectCommand('nakodx.retrieveFromManifest', (cwd, uri?: vscode.Uri) => {
+    retrieveFromManifest(cwd, uri);
+  });
+
+  const historyCmd = vscode.commands.registerCommand('nakodx.showRetrieveHistory', () => {
+    showRetrieveHistory();
+  });
+
+  const searchCmd = registerProjectCommand('nakodx.searchOrgMetadata', cwd => {
+    searchOrgMetadata(cwd);
+  });
+
+  const compareCmd = registerProjectCommand('nakodx.compareWithServer', cwd => {
+    compareWithServer(cwd, true);
+  });
+
+  const compareOrgsCmd = registerProjectCommand('nakodx.compareBetweenOrgs', cwd => {
+    compareBetweenOrgs(cwd);
+  });
+
+  const retrieveByPatternCmd = registerProjectCommand('nakodx.retrieveByPattern', cwd => {
+    retrieveByPattern(cwd);
+  });
+
+  const peekCmd = registerProjectCommand('nakodx.peekServerVersion', (cwd, uri?: vscode.Uri) => {
+    peekServerVersion(cwd, uri);
+  });
+
+  const saveServerVersionCmd = registerProjectCommand('nakodx.saveServerVersionIntoProject', (cwd, uri?: vscode.Uri) => {
+    saveServerVersionIntoProject(cwd, uri);
+  });
+
+  const deleteTypesCacheCmd = registerProjectCommand('nakodx.deleteTypesCache', cwd => {
+    deleteTypesCache(cwd);
+  });
+
+  const deleteItemsCacheCmd = registerProjectCommand('nakodx.deleteItemsCache', cwd => {
+    deleteItemsCache(cwd);
+  });
+
+  context.subscriptions.push(retrieveCmd, retrieveManyCmd, retrieveFromOrgCmd, compareCmd, compareOrgsCmd, retrieveByPatternCmd, peekCmd, saveServerVersionCmd, refreshCmd, deployFileCmd, deploySelectionCmd, validateDeployCmd, searchCmd, retrieveRecentCmd, recentlyModifiedCmd, addToManifestCmd, retrieveManifestCmd, historyCmd, deleteTypesCacheCmd, deleteItemsCacheCmd, output);
+
+  context.subscriptions.push(cacheRefreshEmitter, vscode.window.registerUriHandler({ handleUri: handleRetrieveUri }));
+  registerMetadataExplorer(context);
+  registerOrgFileSystem(context);
+  registerOrgResolution(context);
+  registerStatusBar(context);
 
   logInfo('NAKODX extension activated.');
 }
@@ -399,294 +1161,3601 @@ export function deactivate() {
 /**
  * ===== Command flow =====
  */
-async function retrieveFileFromServer(useCache: boolean = true) {
-  await vscode.window.withProgress({
+async function retrieveFileFromServer(cwd: string, useCache: boolean = true, multiSelect: boolean = false, targetOrg?: string) {
+  await withCliProgress({
     location: vscode.ProgressLocation.Notification,
-    title: 'Initializing NAKODX file retrieval…',
+    title: targetOrg ? `Initializing NAKODX file retrieval from ${targetOrg}…` : 'Initializing NAKODX file retrieval…',
     cancellable: true
   }, async (progress, token) => {
     try {
-      progress.report({ message: 'Getting metadata types…' });
-      const types = await getMetadataTypes(useCache, token);
-      if (!types) {
-        vscode.window.showErrorMessage('Failed to retrieve metadata types');
-        return;
-      }
-
-      progress.report({ message: 'Select metadata type…' });
-      const selectedMetadataType = await showMetadataTypeQuickPick(types);
-      if (!selectedMetadataType) return;
+      const components = await pickMetadataComponents(cwd, progress, token, { useCache, multiSelect, targetOrg });
+      if (!components?.length) return;
 
-      progress.report({ message: `Getting ${selectedMetadataType} items…` });
-      const items = await getMetadataItems(selectedMetadataType, token);
-      if (!items) {
-        vscode.window.showErrorMessage(`Failed to retrieve items for ${selectedMetadataType}`);
+      if (components.length === 1) {
+        const [{ type, fullName }] = components;
+        progress.report({ message: `Retrieving ${type}:${fullName}…` });
+        await retrieveSelectedFile(type, fullName, cwd, token, targetOrg);
         return;
       }
 
-      progress.report({ message: 'Select item…' });
-      const selectedItem = await showMetadataItemQuickPick(items, selectedMetadataType);
-      if (!selectedItem) return;
-
-      progress.report({ message: `Retrieving ${selectedMetadataType}:${selectedItem.name}…` });
-      await retrieveSelectedFile(selectedMetadataType, selectedItem.name, token);
+      progress.report({ message: `Retrieving ${components.length} ${components[0].type} item(s)…` });
+      await retrieveComponents(components, cwd, token, targetOrg);
     } catch (err) {
-      showCliError('Failed to retrieve file', err);
+      showCliError('Failed to retrieve file', err, () => retrieveFileFromServer(cwd, useCache, multiSelect, targetOrg));
     }
   });
 }
 
 /**
- * ===== Data providers =====
+ * Arguments of `nakodx.retrieveFileFromServerCached` (keybindings, tasks, other
+ * extensions, links). Pickers are shown only for what is missing.
  */
-async function getMetadataTypes(useCache: boolean = true, token?: vscode.CancellationToken): Promise<MetadataType[]> {
-  // Respect global cache enable setting
-  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
-  const cachingEnabled = Boolean(config.get('enableCache', true));
+interface RetrieveRequest {
+  type?: string;
+  name?: string;
+  org?: string; // alias or username; default: the project's target-org
+  outputDir?: string; // absolute or relative to the project
+  open?: boolean; // default: the autoOpenAfterDownload setting
+}
+
+function isRetrieveRequest(value: unknown): value is RetrieveRequest {
+  if (typeof value !== 'object' || value === null) return false;
+  const r = value as Record<string, unknown>;
+  return ['type', 'name', 'org', 'outputDir'].every(k => r[k] === undefined || typeof r[k] === 'string')
+    && (r.open === undefined || typeof r.open === 'boolean')
+    && !(r.name && !r.type);
+}
+
+async function retrieveFromRequests(cwd: string, requests: unknown[]) {
+  const invalid = requests.find(r => !isRetrieveRequest(r));
+  if (invalid !== undefined || !requests.length) {
+    vscode.window.showErrorMessage(`Invalid retrieve arguments ${JSON.stringify(invalid ?? requests)}. Expected { type, name, org, outputDir, open } or an array of them; name needs type.`);
+    return;
+  }
+
+  await withCliProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Initializing NAKODX file retrieval…',
+    cancellable: true
+  }, async (progress, token) => {
+    try {
+      // One retrieve per org / output directory / open combination
+      const groups = new Map<string, { org?: string; options: RetrieveOptions; components: MetadataComponent[] }>();
+      for (const r of requests as RetrieveRequest[]) {
+        const components = r.type && r.name
+          ? [{ type: r.type, fullName: r.name }]
+          : await pickMetadataComponents(cwd, progress, token, { useCache: true, targetOrg: r.org, metadataType: r.type });
+        if (!components?.length) return;
+
+        const key = JSON.stringify([r.org, r.outputDir, r.open]);
+        const group = groups.get(key) ?? { org: r.org, options: { outputDir: r.outputDir, open: r.open }, components: [] };
+        group.components.push(...components);
+        groups.set(key, group);
+      }
+
+      for (const { org, options, components } of groups.values()) {
+        progress.report({ message: components.length === 1
+          ? `Retrieving ${components[0].type}:${components[0].fullName}…`
+          : `Retrieving ${components.length} components…` });
+        await retrieveComponents(components, cwd, token, org, options);
+      }
+    } catch (err) {
+      showCliError('Failed to retrieve file', err, () => retrieveFromRequests(cwd, requests));
+    }
+  });
+}
+
+/**
+ * `vscode://daniel-nakonieczny.nakodx-retrieve-file/retrieve?type=ApexClass&name=Foo`
+ * (also `org`, `outputDir`, `open`; `name` may repeat). Always asks before retrieving.
+ */
+async function handleRetrieveUri(uri: vscode.Uri) {
+  logInfo(`Opened ${uri.toString(true)}`);
+  if (uri.path !== '/retrieve') {
+    vscode.window.showErrorMessage(`Unsupported NAKODX link: ${uri.path}`);
+    return;
+  }
+
+  const params = new URLSearchParams(uri.query);
+  const type = params.get('type') ?? undefined;
+  const names = params.getAll('name').filter(Boolean);
+  const org = params.get('org') ?? undefined;
+  const outputDir = params.get('outputDir') ?? undefined;
+  const open = params.has('open') ? ['1', 'true'].includes(params.get('open')!.toLowerCase()) : undefined;
+
+  // A link must not write outside the project
+  if (outputDir && (path.isAbsolute(outputDir) || path.normalize(outputDir).split(/[\\/]/).includes('..'))) {
+    vscode.window.showErrorMessage(`NAKODX link rejected: outputDir must be a path inside the project (${outputDir}).`);
+    return;
+  }
+
+  const project = await selectProjectFolder();
+  if (!project) return;
+
+  const what = type && names.length ? names.map(n => `${type}:${n}`).join(', ') : type ? `a ${type} component` : 'a component';
+  const retrieve = 'Retrieve';
+  const choice = await vscode.window.showWarningMessage(
+    `Retrieve ${what} from ${org ?? 'the default org'} into ${project.name}?`,
+    {
+      modal: true,
+      detail: `Requested by a link opened outside VS Code. Local files may be overwritten${outputDir ? ` in ${outputDir}` : ''}.`
+    },
+    retrieve
+  );
+  if (choice !== retrieve) return;
+
+  const requests: RetrieveRequest[] = names.length
+    ? names.map(name => ({ type, name, org, outputDir, open }))
+    : [{ type, org, outputDir, open }];
+  await retrieveFromRequests(project.uri.fsPath, requests);
+}
+
+/** Pick a type, match its items against a glob or regex, and retrieve every match. */
+async function retrieveByPattern(cwd: string) {
+  await withCliProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'NAKODX: Retrieve by Pattern',
+    cancellable: true
+  }, async (progress, token) => {
+    try {
+      progress.report({ message: 'Getting metadata types…' });
+      const types = await getMetadataTypes(cwd, true, token);
+      const orgId = await getCurrentOrgId(cwd);
+
+      progress.report({ message: 'Select metadata type…' });
+      const metadataType = await showMetadataTypeQuickPick(types, cwd, orgId);
+      if (!metadataType) return;
+
+      progress.report({ message: `Getting ${metadataType} items…` });
+      const listed = await getMetadataItemsWithFolderPick(types, metadataType, cwd, token);
+      if (!listed) return;
+      const filter = getItemFilter();
+      const items = listed.items.filter(i => !isItemHidden(i, filter));
+
+      progress.report({ message: 'Enter a pattern…' });
+      const matches = await showPatternPreviewQuickPick(items, metadataType);
+      if (!matches?.length) return;
+
+      const components = matches.map(i => ({ type: metadataType, fullName: i.fullName }));
+      progress.report({ message: `Retrieving ${components.length} ${metadataType} item(s)…` });
+      const result = await retrieveComponents(components, cwd, token, undefined, { open: false, progress });
+      if (result) logRetrieveSummary(components, result);
+    } catch (err) {
+      showCliError('Failed to retrieve by pattern', err, () => retrieveByPattern(cwd));
+    }
+  });
+}
+
+/** `Invoice*`, `billing?Form` (glob, case-insensitive) or `/^billing/i` (regex). Throws on an invalid regex. */
+function toNamePattern(pattern: string): RegExp {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  // With g or y, `test` resumes from lastIndex and items after a match could be missed
+  return regex ? new RegExp(regex[1], regex[2].replace(/[gy]/g, '')) : globToRegExp(pattern);
+}
+
+/** Live preview of the items matching the typed pattern; resolves to the matches on Enter. */
+function showPatternPreviewQuickPick(items: MetadataItem[], metadataType: string): Promise<MetadataItem[] | undefined> {
+  return new Promise(resolve => {
+    const qp = vscode.window.createQuickPick();
+    qp.placeholder = 'Glob such as Invoice* or billing?Form, or a regex such as /^billing/i';
+    let matches: MetadataItem[] = [];
+    let result: MetadataItem[] | undefined;
+
+    const update = () => {
+      const pattern = qp.value.trim();
+      matches = [];
+      if (!pattern) {
+        qp.title = `${items.length} ${metadataType} item(s). Type a pattern to match their names.`;
+      } else {
+        try {
+          const re = toNamePattern(pattern);
+          matches = items.filter(i => re.test(i.fullName));
+          qp.title = `${matches.length} of ${items.length} ${metadataType} item(s) match. Press Enter to retrieve them.`;
+        } catch (err) {
+          qp.title = `Invalid regex: ${err instanceof Error ? err.message : String(err)}`;
+        }
+      }
+      // alwaysShow: the pattern, not the quick pick's fuzzy filter, decides what is listed
+      qp.items = matches.map(i => ({ label: i.fullName, description: `Modified ${describeLastModified(i)}`, alwaysShow: true }));
+    };
+
+    qp.onDidChangeValue(update);
+    qp.onDidAccept(() => {
+      if (!matches.length) return;
+      result = matches;
+      qp.hide();
+    });
+    qp.onDidHide(() => {
+      qp.dispose();
+      resolve(result);
+    });
+    update();
+    qp.show();
+  });
+}
+
+/** Per-item outcome of a bulk retrieve, written to the output channel. */
+function logRetrieveSummary(components: MetadataComponent[], result: SfRetrieve) {
+  const files = result.result?.files ?? [];
+  let retrieved = 0;
+  const lines = components.map(c => {
+    const own = files.filter(f => f.type === c.type && f.fullName === c.fullName);
+    const failed = own.find(f => f.state === 'Failed');
+    if (failed) return `  ✗ ${c.fullName}: ${failed.error ?? 'failed'}`;
+    if (!own.length) return `  - ${c.fullName}: not returned by the server`;
+    retrieved++;
+    return `  ✓ ${c.fullName} (${own.length} file(s))`;
+  });
+  logInfo(`Retrieved ${retrieved} of ${components.length} ${components[0]?.type ?? ''} item(s):`);
+  for (const line of lines) output.appendLine(line);
+}
+
+async function compareWithServer(cwd: string, useCache: boolean = true) {
+  await withCliProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'NAKODX: Compare with Server',
+    cancellable: true
+  }, async (progress, token) => {
+    try {
+      const components = await pickMetadataComponents(cwd, progress, token, { useCache });
+      if (!components?.length) return;
+
+      progress.report({ message: `Retrieving ${components[0].type}:${components[0].fullName} for comparison…` });
+      await compareComponentsWithServer(components, cwd, token);
+    } catch (err) {
+      showCliError('Failed to compare with server', err, () => compareWithServer(cwd, useCache));
+    }
+  });
+}
+
+async function compareBetweenOrgs(cwd: string) {
+  let orgs: [string, string];
+  try {
+    const first = await showOrgQuickPick(cwd, 'Select the first org (left side of the diff)');
+    if (!first) return;
+    const second = await showOrgQuickPick(cwd, `Select the org to compare ${first} with (right side of the diff)`, first);
+    if (!second) return;
+    orgs = [first, second];
+  } catch (err) {
+    showCliError('Failed to list authenticated orgs', err);
+    return;
+  }
+  const [orgA, orgB] = orgs;
+
+  await withCliProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: `NAKODX: Compare ${orgA} ↔ ${orgB}`,
+    cancellable: true
+  }, async (progress, token) => {
+    try {
+      // Types and items are listed from the first org, using its caches
+      const components = await pickMetadataComponents(cwd, progress, token, { useCache: true, targetOrg: orgA });
+      if (!components?.length) return;
+
+      progress.report({ message: `Retrieving ${components[0].type}:${components[0].fullName} from both orgs…` });
+      await compareComponentsBetweenOrgs(components, orgA, orgB, cwd, token);
+    } catch (err) {
+      showCliError('Failed to compare between orgs', err, () => compareBetweenOrgs(cwd));
+    }
+  });
+}
+
+/** Explorer selection, else the clicked resource, else the active editor's file. */
+function getCommandTargets(uri?: vscode.Uri, uris?: vscode.Uri[]): vscode.Uri[] {
+  return uris?.length ? uris
+    : uri ? [uri]
+    : vscode.window.activeTextEditor ? [vscode.window.activeTextEditor.document.uri]
+    : [];
+}
+
+/** Retrieve the components behind local files/folders (active editor or Explorer selection). */
+async function refreshFromServer(cwd: string, targets: vscode.Uri[]) {
+  const fileTargets = targets.filter(t => t.scheme === 'file');
+  if (!fileTargets.length) {
+    vscode.window.showErrorMessage('Open or select a Salesforce metadata file to refresh from the server.');
+    return;
+  }
+
+  await withCliProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'NAKODX: Refresh from Server',
+    cancellable: true
+  }, async (progress, token) => {
+    try {
+      progress.report({ message: 'Getting metadata types…' });
+      const types = await getMetadataTypes(cwd, true, token);
+
+      progress.report({ message: 'Resolving metadata components…' });
+      const { components, unresolved, fromFolder } = await resolveComponentsFromUris(fileTargets, types);
+      for (const p of unresolved) logWarn(`Not a recognised metadata path: ${p}`);
+
+      if (!components.length) {
+        vscode.window.showErrorMessage('Could not determine the metadata type and name of the selected file(s).');
+        return;
+      }
+
+      if (fromFolder && components.length > 1) {
+        const proceed = 'Refresh';
+        const choice = await vscode.window.showWarningMessage(
+          `Refresh ${components.length} component(s) from the server? Local changes to them will be overwritten.`,
+          { modal: true },
+          proceed
+        );
+        if (choice !== proceed) return;
+      }
+
+      progress.report({ message: components.length === 1
+        ? `Retrieving ${components[0].type}:${components[0].fullName}…`
+        : `Retrieving ${components.length} components…` });
+      await retrieveComponents(components, cwd, token);
+    } catch (err) {
+      showCliError('Failed to refresh from server', err, () => refreshFromServer(cwd, targets));
+    }
+  });
+}
+
+async function retrieveRecent(cwd: string) {
+  try {
+    const currentOrgId = await getCurrentOrgId(cwd);
+    if (!currentOrgId) {
+      vscode.window.showErrorMessage('Could not determine current org ID');
+      return;
+    }
+
+    const pins = await loadPins(currentOrgId);
+    if (!pins.recent.length) {
+      vscode.window.showInformationMessage('No recent retrieves for the current org yet.');
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      pins.recent.map(r => ({
+        label: r.fullName,
+        description: r.type,
+        detail: `Last retrieved ${new Date(r.ts).toLocaleString()}`,
+        component: { type: r.type, fullName: r.fullName }
+      })),
+      { placeHolder: 'Select recently retrieved items to retrieve again', matchOnDescription: true, canPickMany: true }
+    );
+    if (!selected?.length) return;
+
+    await withCliProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: `Retrieving ${selected.length} recent item(s)…`,
+      cancellable: true
+    }, (_progress, token) => retrieveComponents(selected.map(s => s.component), cwd, token));
+  } catch (err) {
+    showCliError('Failed to retrieve recent items', err, () => retrieveRecent(cwd));
+  }
+}
+
+/**
+ * Components changed on the server in the last N days across the chosen types,
+ * newest first, with who changed them; the picked ones can be retrieved or compared.
+ */
+async function showRecentlyModifiedOnServer(cwd: string) {
+  try {
+    const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
+    const currentOrgId = await getCurrentOrgId(cwd);
+
+    const daysInput = await vscode.window.showInputBox({
+      prompt: 'Show components modified on the server in the last N days',
+      value: String(config.get('recentlyModifiedDays', 7)),
+      validateInput: v => /^\d+$/.test(v.trim()) && Number(v) > 0 ? undefined : 'Enter a positive number of days'
+    });
+    if (!daysInput) return;
+    const days = Number(daysInput.trim());
+
+    const types = await withCliProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'NAKODX: Getting metadata types…',
+      cancellable: true
+    }, (_progress, token) => getMetadataTypes(cwd, true, token));
+
+    const pins = currentOrgId ? await loadPins(currentOrgId) : undefined;
+    const preselected = new Set(pins?.favoriteTypes.length ? pins.favoriteTypes : DEFAULT_RECENTLY_MODIFIED_TYPES);
+    // Folder-based types can only be listed per folder, so they are left out here
+    const selectedTypes = await vscode.window.showQuickPick(
+      types
+        .filter(t => !getFolderMetadataType(types, t.xmlName))
+        .map(t => ({ label: t.xmlName, description: t.directoryName, picked: preselected.has(t.xmlName) }))
+        .sort((a, b) => Number(b.picked) - Number(a.picked) || a.label.localeCompare(b.label)),
+      { placeHolder: 'Select metadata types to check for recent changes', canPickMany: true }
+    );
+    if (!selectedTypes?.length) return;
+
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+    const changed: Array<{ metadataType: string; item: MetadataItem; modified: number }> = [];
+    const failedTypes: string[] = [];
+    const cancelled = await withCliProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: `NAKODX: Checking ${selectedTypes.length} type(s) for changes…`,
+      cancellable: true
+    }, async (progress, token) => {
+      let done = 0;
+      await runWithConcurrency(selectedTypes.map(t => t.label), SEARCH_CONCURRENCY, async metadataType => {
+        try {
+          // Always ask the server; a cached list would hide the latest changes
+          const items = await getMetadataItems(metadataType, cwd, token, { forceRefresh: true, noCacheFallback: true });
+          for (const item of items) {
+            const modified = item.lastModifiedDate ? Date.parse(item.lastModifiedDate) : NaN;
+            if (modified >= since) changed.push({ metadataType, item, modified });
+          }
+        } catch (err) {
+          if (!token.isCancellationRequested) {
+            failedTypes.push(metadataType);
+            logWarn(`Recently modified: could not list ${metadataType}: ${String(err)}`);
+          }
+        }
+        done++;
+        progress.report({ increment: 100 / selectedTypes.length, message: `${done} of ${selectedTypes.length} types checked` });
+      }, token);
+      return token.isCancellationRequested;
+    });
+    if (cancelled) return;
+
+    if (failedTypes.length === selectedTypes.length) {
+      throw new Error('Could not list any of the selected types. See the NAKODX output for details.');
+    }
+    if (failedTypes.length) {
+      vscode.window.showWarningMessage(
+        `Could not check ${failedTypes.join(', ')} for changes; ${failedTypes.length === 1 ? 'it is' : 'they are'} not included. See the NAKODX output for details.`
+      );
+    }
+
+    if (!changed.length) {
+      vscode.window.showInformationMessage(`No components of the ${failedTypes.length ? 'other ' : ''}selected types were modified in the last ${days} day(s).`);
+      return;
+    }
+
+    changed.sort((a, b) => b.modified - a.modified);
+    const selected = await vscode.window.showQuickPick(
+      changed.map(c => ({
+        label: c.item.fullName,
+        description: c.metadataType,
+        detail: `Modified ${formatAge(c.modified)}${c.item.lastModifiedByName ? ` by ${c.item.lastModifiedByName}` : ''} (${new Date(c.modified).toLocaleString()})`,
+        component: { type: c.metadataType, fullName: c.item.fullName }
+      })),
+      {
+        placeHolder: `${changed.length} component(s) modified in the last ${days} day(s); select to retrieve or compare`,
+        matchOnDescription: true,
+        matchOnDetail: true,
+        canPickMany: true
+      }
+    );
+    if (!selected?.length) return;
+
+    const retrieve = 'Retrieve';
+    const compare = 'Compare with Local';
+    const action = await vscode.window.showInformationMessage(
+      `${selected.length} component(s) selected.`,
+      retrieve, compare
+    );
+    if (!action) return;
+
+    const components = selected.map(s => s.component);
+    const run = () => withCliProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: action === retrieve ? `Retrieving ${components.length} component(s)…` : `Comparing ${components.length} component(s)…`,
+      cancellable: true
+    }, async (_progress, token) => {
+      try {
+        if (action === retrieve) {
+          await retrieveComponents(components, cwd, token);
+        } else {
+          await compareComponentsWithServer(components, cwd, token);
+        }
+      } catch (err) {
+        showCliError(`${action} failed`, err, run);
+      }
+    });
+    await run();
+  } catch (err) {
+    showCliError('Failed to list recently modified components', err);
+  }
+}
+
+interface SearchQuickPickItem extends vscode.QuickPickItem {
+  component: MetadataComponent;
+}
+
+/**
+ * One quick pick over the items of all types: starts with what is cached and
+ * fills in the remaining types in the background until done, cancelled or hidden.
+ */
+async function searchOrgMetadata(cwd: string) {
+  try {
+    const currentOrgId = await getCurrentOrgId(cwd);
+    const types = await withCliProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'NAKODX: Getting metadata types…',
+      cancellable: true
+    }, (_progress, token) => getMetadataTypes(cwd, true, token));
+
+    // Keyed by type (and folder for folder-based types)
+    const byType = new Map<string, { metadataType: string; items: MetadataItem[] }>();
+    if (currentOrgId) {
+      for (const cached of metadataItemsCache.values()) {
+        if (cached.orgId !== currentOrgId) continue;
+        const key = cached.folder ? `${cached.metadataType}:${cached.folder}` : cached.metadataType;
+        byType.set(key, { metadataType: cached.metadataType, items: cached.items });
+      }
+    }
+
+    const qp = vscode.window.createQuickPick<SearchQuickPickItem>();
+    qp.placeholder = 'Search items of all metadata types (e.g., Invoice)';
+    qp.matchOnDescription = true;
+
+    // Types and items hidden by the picker filter settings are not searched
+    const isTypeHidden = getTypeFilter(cwd);
+    const itemFilter = getItemFilter();
+    const updateItems = () => {
+      const items: SearchQuickPickItem[] = [];
+      for (const { metadataType, items: list } of byType.values()) {
+        if (isTypeHidden?.(metadataType)) continue;
+        for (const item of list) {
+          if (isItemHidden(item, itemFilter)) continue;
+          items.push({
+            label: item.fullName,
+            description: metadataType,
+            component: { type: metadataType, fullName: item.fullName }
+          });
+        }
+      }
+      items.sort((a, b) => a.label.localeCompare(b.label));
+      qp.items = items;
+      qp.title = `${items.length} item(s) in ${byType.size} list(s)`;
+    };
+    updateItems();
+
+    // Folder-based types need a folder to list their items; only their cached folders are searched.
+    const missing = types
+      .map(t => t.xmlName)
+      .filter(name => !byType.has(name) && !getFolderMetadataType(types, name) && !isTypeHidden?.(name));
+
+    const cts = new vscode.CancellationTokenSource();
+    qp.onDidHide(() => {
+      cts.cancel();
+      qp.dispose();
+    });
+    qp.onDidAccept(async () => {
+      const selected = qp.selectedItems[0];
+      qp.hide();
+      if (!selected) return;
+      const run = () => withCliProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Retrieving ${selected.component.type}:${selected.component.fullName}…`,
+        cancellable: true
+      }, async (_progress, token) => {
+        try {
+          await retrieveComponents([selected.component], cwd, token);
+        } catch (err) {
+          showCliError('Failed to retrieve file', err, run);
+        }
+      });
+      await run();
+    });
+    qp.show();
+
+    if (!missing.length) return;
+    qp.busy = true;
+    await withCliProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'NAKODX: Loading items of all metadata types',
+      cancellable: true
+    }, async (progress, token) => {
+      token.onCancellationRequested(() => cts.cancel());
+      let done = 0;
+      await runWithConcurrency(missing, SEARCH_CONCURRENCY, async metadataType => {
+        try {
+          const items = await getMetadataItems(metadataType, cwd, cts.token);
+          byType.set(metadataType, { metadataType, items });
+          updateItems();
+        } catch (err) {
+          if (!cts.token.isCancellationRequested) logWarn(`Search: could not list ${metadataType}: ${String(err)}`);
+        }
+        done++;
+        progress.report({ increment: 100 / missing.length, message: `${done} of ${missing.length} types loaded` });
+      }, cts.token);
+    });
+    qp.busy = false;
+    cts.dispose();
+  } catch (err) {
+    showCliError('Failed to search org metadata', err);
+  }
+}
+
+interface PickComponentsOptions {
+  useCache?: boolean;
+  multiSelect?: boolean;
+  targetOrg?: string;
+  metadataType?: string; // skips the type picker
+}
+
+/** Type → (folder →) item pickers shared by the retrieve-style commands. */
+async function pickMetadataComponents(
+  cwd: string,
+  progress: vscode.Progress<{ message?: string }>,
+  token: vscode.CancellationToken,
+  options: PickComponentsOptions = {}
+): Promise<MetadataComponent[] | undefined> {
+  const { useCache = true, multiSelect = false, targetOrg, metadataType } = options;
+
+  progress.report({ message: 'Getting metadata types…' });
+  const types = await getMetadataTypes(cwd, useCache, token, targetOrg);
+  if (!types) {
+    vscode.window.showErrorMessage('Failed to retrieve metadata types');
+    return undefined;
+  }
+
+  const orgId = await getCurrentOrgId(cwd, targetOrg);
+
+  if (metadataType && !types.some(t => t.xmlName === metadataType || t.childXmlNames?.includes(metadataType))) {
+    vscode.window.showErrorMessage(`Unknown metadata type: ${metadataType}`);
+    return undefined;
+  }
+
+  progress.report({ message: 'Select metadata type…' });
+  const selectedMetadataType = metadataType ?? await showMetadataTypeQuickPick(types, cwd, orgId);
+  if (!selectedMetadataType) return undefined;
+
+  progress.report({ message: `Getting ${selectedMetadataType} items…` });
+  const listed = await getMetadataItemsWithFolderPick(types, selectedMetadataType, cwd, token, targetOrg);
+  if (listed === null) return undefined;
+  const { items, folder } = listed;
+  if (!items) {
+    vscode.window.showErrorMessage(`Failed to retrieve items for ${selectedMetadataType}`);
+    return undefined;
+  }
+
+  if (multiSelect) {
+    progress.report({ message: 'Select items…' });
+    const selectedNames = await showMetadataItemsQuickPickMany(items, selectedMetadataType, orgId, folder);
+    return selectedNames?.map(name => ({ type: selectedMetadataType, fullName: name }));
+  }
+
+  progress.report({ message: 'Select item…' });
+  const selectedItem = await showMetadataItemQuickPick(items, selectedMetadataType, orgId, folder);
+  if (!selectedItem) return undefined;
+
+  return [{ type: selectedMetadataType, fullName: selectedItem.name }];
+}
+
+/**
+ * ===== Data providers =====
+ */
+async function getMetadataTypes(
+  cwd: string,
+  useCache: boolean = true,
+  token?: vscode.CancellationToken,
+  targetOrg?: string
+): Promise<MetadataType[]> {
+  // Respect global cache enable setting
+  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
+  const cachingEnabled = Boolean(config.get('enableCache', true));
   if (!cachingEnabled) useCache = false;
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-  if (!workspaceFolder) throw new Error('No workspace folder open');
-  const cwd = workspaceFolder.uri.fsPath;
 
-  const currentOrgId = await getCurrentOrgId();
+  const currentOrgId = await getCurrentOrgId(cwd, targetOrg);
+
+  const fetchTypes = async (fetchToken?: vscode.CancellationToken) => {
+    const json = await runSfJson<SfListMetadataTypes>(withTargetOrg(['org', 'list', 'metadata-types'], targetOrg), cwd, fetchToken, { retry: true });
+    const types = json.result?.metadataObjects ?? [];
+
+    // Cache only if enabled
+    if (cachingEnabled && currentOrgId) {
+      metadataTypesCache = { orgId: currentOrgId, metadataTypes: types, ts: Date.now() };
+      await saveMetadataTypesToDisk(metadataTypesCache);
+    }
+    return types;
+  };
+
+  // Cache: memory & disk (expired entries too, see below)
+  let cached: CachedMetadataTypes | null = null;
+  if (cachingEnabled && currentOrgId) {
+    cached = metadataTypesCache?.orgId === currentOrgId ? metadataTypesCache : await loadMetadataTypesFromDisk(currentOrgId);
+    if (cached) metadataTypesCache = cached;
+  }
+
+  // Stale-while-revalidate: expired lists are served right away and refreshed in the background
+  if (useCache && cached && currentOrgId) {
+    if (!isFresh(cached.ts)) {
+      revalidateInBackground(getMetadataTypesCacheKey(currentOrgId), () => fetchTypes(), { orgId: currentOrgId });
+    }
+    return cached.metadataTypes;
+  }
+
+  try {
+    const types = await fetchTypes(token);
+    if (currentOrgId) refreshFailures.delete(getMetadataTypesCacheKey(currentOrgId));
+    return types;
+  } catch (err) {
+    // Offline fallback: any cached list beats an error
+    if (!cached || !currentOrgId || token?.isCancellationRequested) throw err;
+    recordRefreshFailure(getMetadataTypesCacheKey(currentOrgId), err);
+    logWarn(`Listing metadata types failed, using types cached ${cached.ts ? formatAge(cached.ts) : 'earlier'}: ${String(err)}`);
+    return cached.metadataTypes;
+  }
+}
+
+interface MetadataItemsOptions {
+  folder?: string; // list items inside this folder (folder-based types only)
+  targetOrg?: string; // alias/username; defaults to the project's target-org
+  forceRefresh?: boolean; // skip the cache, falling back to it only when the CLI call fails
+  noCacheFallback?: boolean; // throw instead of falling back to the cache when the CLI call fails
+}
+
+async function getMetadataItems(
+  metadataType: string,
+  cwd: string,
+  token?: vscode.CancellationToken,
+  options: MetadataItemsOptions = {}
+): Promise<MetadataItem[]> {
+  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
+  const cachingEnabled = Boolean(config.get('enableCache', true));
+  const { folder, targetOrg, forceRefresh, noCacheFallback } = options;
+
+  const currentOrgId = await getCurrentOrgId(cwd, targetOrg);
+  const cacheKey = currentOrgId ? getMetadataItemsCacheKey(currentOrgId, metadataType, folder) : undefined;
+
+  const fetchItems = async (fetchToken?: vscode.CancellationToken): Promise<MetadataItem[]> => {
+    // Coalesce in-flight requests for same key
+    if (cacheKey && inflightItems.has(cacheKey)) return inflightItems.get(cacheKey)!;
+
+    const fetchPromise = (async () => {
+      const args = ['org', 'list', 'metadata', '-m', metadataType];
+      if (folder) args.push('--folder', folder);
+      const json = await runSfJson<SfListMetadata>(withTargetOrg(args, targetOrg), cwd, fetchToken, { retry: true });
+      const items = json.result ?? [];
+
+      if (cachingEnabled && cacheKey && currentOrgId) {
+        const cacheData: CachedMetadataItems = {
+          orgId: currentOrgId,
+          metadataType,
+          folder,
+          items,
+          ts: Date.now()
+        };
+        metadataItemsCache.set(cacheKey, cacheData);
+        await saveMetadataItemsToDisk(cacheData);
+      }
+
+      return items;
+    })();
+
+    if (cacheKey && cachingEnabled) inflightItems.set(cacheKey, fetchPromise);
+    try {
+      return await fetchPromise;
+    } finally {
+      if (cacheKey && cachingEnabled) inflightItems.delete(cacheKey);
+    }
+  };
+
+  // Memory cache, then disk (only if enabled; expired entries too, see below)
+  let cached: CachedMetadataItems | null | undefined;
+  if (cacheKey && cachingEnabled) {
+    cached = metadataItemsCache.get(cacheKey) ?? await loadMetadataItemsFromDisk(currentOrgId!, metadataType, folder);
+    if (cached) metadataItemsCache.set(cacheKey, cached);
+  }
+
+  // Stale-while-revalidate: expired lists are served right away and refreshed in the background
+  if (cached && cacheKey && !forceRefresh) {
+    if (!isFresh(cached.ts)) {
+      revalidateInBackground(cacheKey, () => fetchItems(), { orgId: currentOrgId!, metadataType, folder });
+    }
+    return cached.items;
+  }
+
+  try {
+    const items = await fetchItems(token);
+    if (cacheKey) refreshFailures.delete(cacheKey);
+    return items;
+  } catch (err) {
+    // Offline fallback: any cached list beats an error
+    if (!cached || !cacheKey || noCacheFallback || token?.isCancellationRequested) throw err;
+    recordRefreshFailure(cacheKey, err);
+    logWarn(`Listing ${metadataType} failed, using items cached ${cached.ts ? formatAge(cached.ts) : 'earlier'}: ${String(err)}`);
+    return cached.items;
+  }
+}
+
+/** Folder metadata type for folder-based types (Report → ReportFolder), otherwise undefined. */
+function getFolderMetadataType(metadataTypes: MetadataType[], metadataType: string): string | undefined {
+  if (FOLDER_TYPES[metadataType]) return FOLDER_TYPES[metadataType];
+  const type = metadataTypes.find(t => t.xmlName === metadataType);
+  return type?.inFolder ? `${metadataType}Folder` : undefined;
+}
+
+/**
+ * Items for the item picker. Folder-based types first list their folders and ask
+ * the user to pick one; resolves to null when that folder pick is dismissed.
+ */
+async function getMetadataItemsWithFolderPick(
+  metadataTypes: MetadataType[],
+  metadataType: string,
+  cwd: string,
+  token?: vscode.CancellationToken,
+  targetOrg?: string
+): Promise<{ items: MetadataItem[]; folder?: string } | null> {
+  const folderType = getFolderMetadataType(metadataTypes, metadataType);
+  if (!folderType) return { items: await getMetadataItems(metadataType, cwd, token, { targetOrg }) };
+
+  const folders = await getMetadataItems(folderType, cwd, token, { targetOrg });
+  const folder = await showMetadataFolderQuickPick(folders, metadataType, folderType);
+  if (!folder) return null;
+
+  return { items: await getMetadataItems(metadataType, cwd, token, { folder, targetOrg }), folder };
+}
+
+/** Apply user configuration for TTL and potentially purge caches if disabled */
+function applyConfigSettings() {
+  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
+  const days = Math.min(30, Math.max(1, Number(config.get('cacheTtlDays', 30))));
+  TTL_MS = days * 24 * 60 * 60 * 1000;
+  const cachingEnabled = Boolean(config.get('enableCache', true));
+  logInfo(`Cache settings applied. Enabled=${cachingEnabled} TTL_DAYS=${days}`);
+  if (!cachingEnabled) {
+    metadataTypesCache = null;
+    metadataItemsCache.clear();
+    serverFilesCache.clear();
+    refreshFailures.clear();
+    // Remove on-disk cache files as well
+    try {
+      if (cacheDirectory && fs.existsSync(cacheDirectory)) {
+        const files = fs.readdirSync(cacheDirectory);
+        let deleted = 0;
+        for (const f of files) {
+          if (f.startsWith('metadata-types-') || f.startsWith('metadata-items-')) {
+            try {
+              fs.unlinkSync(path.join(cacheDirectory, f));
+              deleted++;
+            } catch (e) {
+              logWarn(`Failed deleting cache file ${f}: ${String(e)}`);
+            }
+          }
+        }
+        fs.rmSync(path.join(cacheDirectory, SERVER_FILES_DIRECTORY), { recursive: true, force: true });
+        logInfo(`Disk cache cleared (${deleted} file(s) removed).`);
+      }
+    } catch (e) {
+      logWarn(`Error while clearing disk cache: ${String(e)}`);
+    }
+  }
+}
+
+/**
+ * ===== QuickPick helpers =====
+ */
+interface MetadataTypeQuickPickItem extends vscode.QuickPickItem {
+  xmlName: string;
+}
+
+/**
+ * Top-level types in API order, each followed by its child types (CustomField,
+ * RecordType, ValidationRule…). Child items are listed as `Parent.Child`.
+ */
+function toMetadataTypeQuickPickItems(metadataTypes: MetadataType[]): MetadataTypeQuickPickItem[] {
+  const topLevel = new Set(metadataTypes.map(t => t.xmlName));
+  const seenChildren = new Set<string>();
+  const items: MetadataTypeQuickPickItem[] = [];
+
+  for (const type of metadataTypes) {
+    items.push({
+      label: type.xmlName,
+      description: type.directoryName,
+      detail: `${type.childXmlNames?.length || 0} child types`,
+      xmlName: type.xmlName
+    });
+
+    for (const child of type.childXmlNames ?? []) {
+      if (topLevel.has(child) || seenChildren.has(child)) continue;
+      seenChildren.add(child);
+      items.push({
+        label: `$(type-hierarchy-sub) ${child}`,
+        description: `child of ${type.xmlName}`,
+        detail: `Items are listed as ${type.xmlName}.Name (e.g., Account.Industry__c)`,
+        xmlName: child
+      });
+    }
+  }
+
+  return items;
+}
+
+interface MetadataItemQuickPickItem extends vscode.QuickPickItem {
+  fullName: string;
+}
+
+interface QuickPickWithButtonsOptions<T> {
+  placeHolder: string;
+  canPickMany?: boolean;
+  onDidTriggerItemButton?: (item: T) => Promise<void>;
+  buttons?: () => vscode.QuickInputButton[]; // title bar buttons, re-evaluated with the items
+  onDidTriggerButton?: (button: vscode.QuickInputButton) => void;
+  title?: () => string | undefined; // re-evaluated whenever items are rebuilt
+  refreshOn?: (rebuild: () => void) => vscode.Disposable; // rebuild items when the source list changes
+}
+
+/**
+ * `createQuickPick` wrapper for pickers with item buttons (favorite stars) and live
+ * data: items are rebuilt after a button was used or the source list was refreshed,
+ * keeping the filter and checked items.
+ */
+function showQuickPickWithButtons<T extends vscode.QuickPickItem>(
+  buildItems: () => T[],
+  options: QuickPickWithButtonsOptions<T>
+): Promise<readonly T[] | undefined> {
+  return new Promise(resolve => {
+    const qp = vscode.window.createQuickPick<T>();
+    qp.placeholder = options.placeHolder;
+    qp.matchOnDescription = true;
+    qp.matchOnDetail = true;
+    qp.canSelectMany = Boolean(options.canPickMany);
+
+    const rebuild = () => {
+      const checked = new Set(qp.selectedItems.map(i => i.label));
+      qp.items = buildItems();
+      qp.title = options.title?.();
+      qp.buttons = options.buttons?.() ?? [];
+      if (qp.canSelectMany) qp.selectedItems = qp.items.filter(i => checked.has(i.label));
+    };
+    rebuild();
+    const refreshSubscription = options.refreshOn?.(rebuild);
+
+    let result: readonly T[] | undefined;
+    qp.onDidTriggerItemButton(async e => {
+      await options.onDidTriggerItemButton?.(e.item);
+      rebuild();
+    });
+    qp.onDidTriggerButton(button => {
+      options.onDidTriggerButton?.(button);
+      rebuild();
+    });
+    qp.onDidAccept(() => {
+      result = qp.selectedItems;
+      qp.hide();
+    });
+    qp.onDidHide(() => {
+      refreshSubscription?.dispose();
+      qp.dispose();
+      resolve(result);
+    });
+    qp.show();
+  });
+}
+
+function favoriteButton(isFavorite: boolean): vscode.QuickInputButton {
+  return {
+    iconPath: new vscode.ThemeIcon(isFavorite ? 'star-full' : 'star-empty'),
+    tooltip: isFavorite ? 'Remove from Favorites' : 'Add to Favorites'
+  };
+}
+
+/** Prepend "Recent" and "Favorites" sections (when non-empty) to the full list. */
+function withPinnedSections<T extends vscode.QuickPickItem>(recent: T[], favorites: T[], all: T[], allLabel: string): T[] {
+  if (!recent.length && !favorites.length) return all;
+  const separator = (label: string) => ({ label, kind: vscode.QuickPickItemKind.Separator } as T);
+  return [
+    ...(recent.length ? [separator('Recent'), ...recent] : []),
+    ...(favorites.length ? [separator('Favorites'), ...favorites] : []),
+    separator(allLabel),
+    ...all
+  ];
+}
+
+/**
+ * ===== Picker filters =====
+ * Types hidden by the `metadataTypes.include`/`exclude` settings (`*` wildcards), and
+ * managed or namespaced items hidden by the `itemFilter.*` settings. The pickers'
+ * title bar toggles override them until the picker closes.
+ */
+interface ItemFilter {
+  hideManaged: boolean;
+  hideNamespaced: boolean;
+  hiddenNamespaces: string[];
+}
+
+/** Components of installed managed packages; `released` ones belong to the org's own package. */
+const MANAGED_STATES = new Set(['installed', 'installedEditable', 'deprecated', 'deprecatedEditable']);
+
+function getItemFilter(): ItemFilter {
+  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
+  return {
+    hideManaged: Boolean(config.get('itemFilter.hideManaged', false)),
+    hideNamespaced: Boolean(config.get('itemFilter.hideNamespaced', false)),
+    hiddenNamespaces: config.get<string[]>('itemFilter.hiddenNamespaces', []).map(ns => ns.toLowerCase())
+  };
+}
+
+function isItemHidden(item: MetadataItem, filter: ItemFilter): boolean {
+  if (filter.hideManaged && item.manageableState && MANAGED_STATES.has(item.manageableState)) return true;
+  const ns = item.namespacePrefix?.toLowerCase();
+  return Boolean(ns && (filter.hideNamespaced || filter.hiddenNamespaces.includes(ns)));
+}
+
+type ItemFilterButton = vscode.QuickInputButton & { toggles: 'hideManaged' | 'hideNamespaced' };
+
+function itemFilterButtons(filter: ItemFilter): ItemFilterButton[] {
+  return [
+    {
+      iconPath: new vscode.ThemeIcon('package'),
+      tooltip: filter.hideManaged ? 'Show Managed Package Components' : 'Hide Managed Package Components',
+      toggles: 'hideManaged'
+    },
+    {
+      iconPath: new vscode.ThemeIcon('symbol-namespace'),
+      tooltip: filter.hideNamespaced ? 'Show Namespaced Components' : 'Hide Namespaced Components',
+      toggles: 'hideNamespaced'
+    }
+  ];
+}
+
+function toggleItemFilter(filter: ItemFilter, button: vscode.QuickInputButton) {
+  const key = (button as Partial<ItemFilterButton>).toggles;
+  if (key) filter[key] = !filter[key];
+}
+
+/** Case-insensitive RegExp for a glob with `*` and `?` wildcards. */
+function globToRegExp(glob: string): RegExp {
+  const source = glob.split(/([*?])/)
+    .map(part => part === '*' ? '.*' : part === '?' ? '.' : part.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/** Predicate for types hidden by the project's include/exclude lists, or undefined when none are set. */
+function getTypeFilter(cwd: string): ((xmlName: string) => boolean) | undefined {
+  const config = vscode.workspace.getConfiguration('nakodx-file-retriever', vscode.Uri.file(cwd));
+  const include = config.get<string[]>('metadataTypes.include', []).map(globToRegExp);
+  const exclude = config.get<string[]>('metadataTypes.exclude', []).map(globToRegExp);
+  if (!include.length && !exclude.length) return undefined;
+  return xmlName => (include.length > 0 && !include.some(p => p.test(xmlName))) || exclude.some(p => p.test(xmlName));
+}
+
+async function showMetadataTypeQuickPick(metadataTypes: MetadataType[], cwd: string, orgId?: string | null): Promise<string | undefined> {
+  let types = metadataTypes;
+  const isTypeHidden = getTypeFilter(cwd);
+  let showAllTypes = false;
+  let hiddenTypes = 0;
+  const buildItems = (): MetadataTypeQuickPickItem[] => {
+    const pins = orgId ? pinsCache.get(orgId) : undefined;
+    const favorites = new Set(pins?.favoriteTypes ?? []);
+    const typeItems = toMetadataTypeQuickPickItems(types);
+    const visible = showAllTypes || !isTypeHidden ? typeItems : typeItems.filter(i => !isTypeHidden(i.xmlName));
+    hiddenTypes = typeItems.length - visible.length;
+    const all: MetadataTypeQuickPickItem[] = visible
+      .map(i => ({ ...i, buttons: orgId ? [favoriteButton(favorites.has(i.xmlName))] : undefined }));
+    if (!pins) return all;
+
+    const byName = new Map<string, MetadataTypeQuickPickItem>();
+    for (const i of all) if (!byName.has(i.xmlName)) byName.set(i.xmlName, i);
+    const recentTypes = [...new Set(pins.recent.map(r => r.type))].slice(0, MAX_RECENT_IN_PICKER);
+    return withPinnedSections(
+      recentTypes.map(t => byName.get(t)).filter((i): i is MetadataTypeQuickPickItem => Boolean(i)),
+      pins.favoriteTypes.map(t => byName.get(t)).filter((i): i is MetadataTypeQuickPickItem => Boolean(i)),
+      all,
+      'All types'
+    );
+  };
+
+  if (orgId) await loadPins(orgId);
+  const selected = await showQuickPickWithButtons(buildItems, {
+    placeHolder: 'Select a metadata type (e.g., ApexClass, CustomField)',
+    onDidTriggerItemButton: async item => { if (orgId) await toggleFavoriteType(orgId, item.xmlName); },
+    buttons: () => isTypeHidden ? [{
+      iconPath: new vscode.ThemeIcon(showAllTypes ? 'filter' : 'eye'),
+      tooltip: showAllTypes ? 'Apply Metadata Type Filter' : 'Show All Metadata Types'
+    }] : [],
+    onDidTriggerButton: () => { showAllTypes = !showAllTypes; },
+    title: () => [
+      orgId && metadataTypesCache?.orgId === orgId
+        ? describeCacheState(getMetadataTypesCacheKey(orgId), metadataTypesCache.ts)
+        : undefined,
+      hiddenTypes ? `${hiddenTypes} type(s) hidden by workspace settings` : undefined
+    ].filter(Boolean).join(' · ') || undefined,
+    refreshOn: rebuild => onDidRefreshCache(e => {
+      if (!orgId || e.orgId !== orgId || e.metadataType) return;
+      if (metadataTypesCache?.orgId === orgId) types = metadataTypesCache.metadataTypes;
+      rebuild();
+    })
+  });
+
+  return selected?.[0]?.xmlName;
+}
+
+/** "3/14/2026 by Jane Doe" */
+function describeLastModified(item: MetadataItem): string {
+  if (!item.lastModifiedDate) return 'Unknown';
+  const date = new Date(item.lastModifiedDate).toLocaleDateString();
+  return item.lastModifiedByName ? `${date} by ${item.lastModifiedByName}` : date;
+}
+
+function toMetadataItemQuickPickItems(metadataItems: MetadataItem[], metadataType: string): MetadataItemQuickPickItem[] {
+  return metadataItems.map(item => {
+    const created = item.createdDate ? new Date(item.createdDate).toLocaleDateString() : 'Unknown';
+    return {
+      label: item.fullName,
+      description: item.fileName || '',
+      detail: `Type: ${item.type ?? metadataType} | Created: ${created} | Modified: ${describeLastModified(item)}`,
+      fullName: item.fullName
+    };
+  });
+}
+
+/** Item picker items with favorite stars and Recent/Favorites sections for the given org. */
+function buildPinnedItemQuickPickItems(
+  metadataItems: MetadataItem[],
+  metadataType: string,
+  orgId?: string | null
+): MetadataItemQuickPickItem[] {
+  const pins = orgId ? pinsCache.get(orgId) : undefined;
+  const favorites = new Set((pins?.favoriteItems ?? []).filter(f => f.type === metadataType).map(f => f.fullName));
+  const all: MetadataItemQuickPickItem[] = toMetadataItemQuickPickItems(metadataItems, metadataType)
+    .map(i => ({ ...i, buttons: orgId ? [favoriteButton(favorites.has(i.fullName))] : undefined }));
+  if (!pins) return all;
+
+  const byName = new Map(all.map(i => [i.fullName, i]));
+  const pick = (names: string[]) => names.map(n => byName.get(n)).filter((i): i is MetadataItemQuickPickItem => Boolean(i));
+  return withPinnedSections(
+    pick(pins.recent.filter(r => r.type === metadataType).map(r => r.fullName).slice(0, MAX_RECENT_IN_PICKER)),
+    pick([...favorites]),
+    all,
+    'All items'
+  );
+}
+
+/**
+ * Picker options shared by the single and multi item pickers: favorite stars,
+ * cache-age title and live update when the item list is refreshed in the background.
+ */
+function itemPickerOptions(
+  metadataType: string,
+  orgId: string | null | undefined,
+  folder: string | undefined,
+  getItems: () => MetadataItem[],
+  onItems: (items: MetadataItem[]) => void,
+  filter: ItemFilter
+): Omit<QuickPickWithButtonsOptions<MetadataItemQuickPickItem>, 'placeHolder'> {
+  const cacheKey = orgId ? getMetadataItemsCacheKey(orgId, metadataType, folder) : undefined;
+  return {
+    onDidTriggerItemButton: async item => {
+      if (orgId) await toggleFavoriteItem(orgId, { type: metadataType, fullName: item.fullName });
+    },
+    buttons: () => getItems().some(i => i.namespacePrefix || i.manageableState) ? itemFilterButtons(filter) : [],
+    onDidTriggerButton: button => toggleItemFilter(filter, button),
+    title: () => {
+      const hidden = getItems().filter(i => isItemHidden(i, filter)).length;
+      return [
+        cacheKey ? describeCacheState(cacheKey, metadataItemsCache.get(cacheKey)?.ts) : undefined,
+        hidden ? `${hidden} managed/namespaced item(s) hidden` : undefined
+      ].filter(Boolean).join(' · ') || undefined;
+    },
+    refreshOn: rebuild => onDidRefreshCache(e => {
+      if (!cacheKey || e.orgId !== orgId || e.metadataType !== metadataType || e.folder !== folder) return;
+      const cached = metadataItemsCache.get(cacheKey);
+      if (cached) onItems(cached.items);
+      rebuild();
+    })
+  };
+}
+
+async function showMetadataItemQuickPick(
+  metadataItems: MetadataItem[],
+  metadataType: string,
+  orgId?: string | null,
+  folder?: string
+): Promise<{ name: string; fileName: string | null } | undefined> {
+  let items = metadataItems;
+  const filter = getItemFilter();
+  if (orgId) await loadPins(orgId);
+  const selected = await showQuickPickWithButtons(
+    () => buildPinnedItemQuickPickItems(items.filter(i => !isItemHidden(i, filter)), metadataType, orgId),
+    {
+      placeHolder: `Select a ${metadataType} item`,
+      ...itemPickerOptions(metadataType, orgId, folder, () => items, refreshed => { items = refreshed; }, filter)
+    }
+  );
+
+  const selectedItem = selected?.[0];
+  if (selectedItem) {
+    const originalItem = items.find(i => i.fullName === selectedItem.fullName);
+    return {
+      name: selectedItem.fullName,
+      fileName: originalItem?.fileName || null
+    };
+  }
+  return undefined;
+}
+
+async function showMetadataFolderQuickPick(
+  folders: MetadataItem[],
+  metadataType: string,
+  folderType: string
+): Promise<string | undefined> {
+  const items: vscode.QuickPickItem[] = folders
+    .map(f => f.fullName)
+    .sort((a, b) => a.localeCompare(b))
+    .map(name => ({ label: name, description: folderType }));
+
+  if (TYPES_WITH_UNFILED_FOLDER.has(metadataType)) {
+    items.unshift({ label: UNFILED_PUBLIC_FOLDER, description: 'Unfiled public items' });
+  }
+
+  const selectedItem = await vscode.window.showQuickPick(items, {
+    placeHolder: `Select a ${folderType} to list its ${metadataType} items`,
+    matchOnDescription: true
+  });
+
+  return selectedItem?.label;
+}
+
+/** Multi-select variant of the item picker; resolves to the chosen full names. */
+async function showMetadataItemsQuickPickMany(
+  metadataItems: MetadataItem[],
+  metadataType: string,
+  orgId?: string | null,
+  folder?: string
+): Promise<string[] | undefined> {
+  let items = metadataItems;
+  const filter = getItemFilter();
+  if (orgId) await loadPins(orgId);
+  const selectedItems = await showQuickPickWithButtons(
+    () => buildPinnedItemQuickPickItems(items.filter(i => !isItemHidden(i, filter)), metadataType, orgId),
+    {
+      placeHolder: `Select one or more ${metadataType} items`,
+      canPickMany: true,
+      ...itemPickerOptions(metadataType, orgId, folder, () => items, refreshed => { items = refreshed; }, filter)
+    }
+  );
+
+  // Pinned items also appear in the full list; checking either counts once
+  return selectedItems && [...new Set(selectedItems.map(i => i.fullName))];
+}
+
+/**
+ * ===== Retrieve & open (with rich error handling) =====
+ */
+async function retrieveSelectedFile(
+  metadataType: string,
+  itemName: string,
+  cwd: string,
+  token?: vscode.CancellationToken,
+  targetOrg?: string
+): Promise<void> {
+  await retrieveComponents([{ type: metadataType, fullName: itemName }], cwd, token, targetOrg);
+}
+
+interface RetrieveOptions {
+  outputDir?: string; // absolute or relative to the project; default: the package directories
+  open?: boolean; // default: the autoOpenAfterDownload setting
+  progress?: vscode.Progress<{ message?: string; increment?: number }>; // batch progress of large retrieves
+}
+
+/**
+ * Longest `--metadata` argument list per CLI call. On Windows sf.cmd runs through
+ * cmd.exe, whose command line is limited to 8191 characters.
+ */
+const MAX_METADATA_ARGS_LENGTH = process.platform === 'win32' ? 6000 : 60000;
+
+/** Split components into batches whose `--metadata` arguments stay under MAX_METADATA_ARGS_LENGTH. */
+function toRetrieveBatches(components: MetadataComponent[]): MetadataComponent[][] {
+  const batches: MetadataComponent[][] = [];
+  let current: MetadataComponent[] = [];
+  let length = 0;
+  for (const c of components) {
+    const argLength = '--metadata '.length + c.type.length + c.fullName.length + 4; // ':', quotes, space
+    if (current.length && length + argLength > MAX_METADATA_ARGS_LENGTH) {
+      batches.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(c);
+    length += argLength;
+  }
+  if (current.length) batches.push(current);
+  return batches;
+}
+
+/**
+ * Retrieve one or more components with `sf project retrieve start`, one call per
+ * package directory and batch. Throws when nothing could be retrieved; partial
+ * failures (including failed batches) are reported per file.
+ * Resolves to undefined when the user backed out at the conflict check.
+ */
+async function retrieveComponents(
+  components: MetadataComponent[],
+  cwd: string,
+  token?: vscode.CancellationToken,
+  targetOrg?: string,
+  options: RetrieveOptions = {}
+): Promise<SfRetrieve | undefined> {
+
+  const decision = await checkConflictsBeforeRetrieve(components, cwd, token, targetOrg);
+  if (decision === 'cancel') return undefined;
+  if (decision === 'compare') {
+    await compareComponentsWithServer(components, cwd, token, targetOrg);
+    return undefined;
+  }
+
+  const groups = options.outputDir
+    ? new Map([[undefined, components]])
+    : await groupComponentsByPackageDirectory(components, cwd, token, targetOrg);
+  if (!groups) return undefined;
+  const outputDir = options.outputDir && path.resolve(cwd, options.outputDir);
+
+  const label = components.length === 1
+    ? `${components[0].type}:${components[0].fullName}`
+    : `${components.length} components`;
+
+  const snapshot = await takeRetrieveSnapshot(components, cwd, token, targetOrg);
+  let retrieved: RetrievedFile[] = [];
+  let result: SfRetrieve;
+  try {
+    const batches = [...groups].flatMap(([packageDir, group]) => toRetrieveBatches(group).map(batch => ({ packageDir, batch })));
+    const results: SfRetrieve[] = [];
+    const failedBatches: unknown[] = [];
+    for (const [i, { packageDir, batch }] of batches.entries()) {
+      const args = ['project', 'retrieve', 'start'];
+      for (const c of batch) args.push('--metadata', `${c.type}:${c.fullName}`);
+      if (outputDir) args.push('--output-dir', outputDir);
+      if (batches.length > 1) options.progress?.report({ message: `Batch ${i + 1} of ${batches.length} (${batch.length} components)…` });
+      try {
+        results.push(packageDir
+          ? await retrieveIntoPackageDirectory(args, packageDir, cwd, token, targetOrg)
+          : await runRetrieve(args, cwd, token, targetOrg));
+      } catch (err) {
+        if (batches.length === 1 || token?.isCancellationRequested) throw err;
+        // Keep going; the batch's components are reported as failed
+        const error = err instanceof Error ? err.message : String(err);
+        logErr(`Batch ${i + 1} of ${batches.length} failed: ${error}`);
+        failedBatches.push(err);
+        results.push({ status: 1, result: { files: batch.map(c => ({ filePath: '', state: 'Failed', type: c.type, fullName: c.fullName, error })) } });
+      }
+      if (batches.length > 1) options.progress?.report({ increment: 100 / batches.length });
+    }
+    if (failedBatches.length && failedBatches.length === batches.length) throw failedBatches[0];
+    result = mergeRetrieveResults(results);
+    retrieved = await reportRetrieveResult(result, label, cwd, targetOrg);
+  } finally {
+    await finishRetrieveSnapshot(snapshot, retrieved, components, cwd, targetOrg);
+  }
+  const files = result.result?.files ?? [];
+
+  const succeeded = components.filter(c =>
+    !files.some(f => f.state === 'Failed' && f.type === c.type && f.fullName === c.fullName));
+  const orgId = await getCurrentOrgId(cwd, targetOrg);
+  if (orgId) await recordRecentRetrieves(orgId, succeeded);
+
+  // Open first non -meta.xml file of each component if setting enabled
+  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
+  const autoOpen = options.open ?? Boolean(config.get('autoOpenAfterDownload', true));
+
+  if (autoOpen) {
+    await openRetrievedFiles(retrieved, cwd);
+  }
+
+  return result;
+}
+
+/** Combine the results of several `project retrieve start` runs into one. */
+function mergeRetrieveResults(results: SfRetrieve[]): SfRetrieve {
+  if (results.length === 1) return results[0];
+  const messages = results.flatMap(r => {
+    const m = r.result?.messages;
+    return Array.isArray(m) ? m : typeof m === 'string' && m.trim() ? [{ problem: m.trim() }] : [];
+  });
+  return {
+    status: Math.max(...results.map(r => r.status ?? 0)),
+    result: {
+      success: results.every(r => r.result?.success !== false),
+      files: results.flatMap(r => r.result?.files ?? []),
+      messages,
+    },
+  };
+}
+
+/**
+ * Surface the outcome of a retrieve: throws when nothing was retrieved, otherwise
+ * logs per-file results and shows a success or partial-failure toast.
+ * Problems also go to the Problems panel. Resolves to the files that were retrieved.
+ */
+async function reportRetrieveResult(result: SfRetrieve, label: string, cwd: string, targetOrg?: string): Promise<RetrievedFile[]> {
+  await publishRetrieveDiagnostics(result, cwd, targetOrg);
+
+  // Even when status==0, there can be logical failures in messages/files.
+  const problems = collectRetrieveProblems(result);
+  const files = result.result?.files ?? [];
+  const retrieved = files.filter(f => f.state !== 'Failed');
+
+  if (problems.length && !retrieved.length) {
+    const first = problems[0];
+    // Throw with rich context; top-level will show the toast.
+    throw new SfCliError(first, { rawJson: result });
+  }
+
+  for (const f of retrieved) logInfo(`Retrieved ${f.type}:${f.fullName} → ${f.filePath}`);
+  for (const p of problems) logErr(p);
+
+  if (problems.length) {
+    const actionOpen = 'Open Output';
+    const actionProblems = 'Show Problems';
+    vscode.window.showWarningMessage(
+      `Retrieved ${label} with ${problems.length} problem(s): ${problems[0]}`,
+      actionProblems,
+      actionOpen
+    ).then(choice => {
+      if (choice === actionOpen) output.show(true);
+      if (choice === actionProblems) vscode.commands.executeCommand('workbench.actions.view.problems');
+    });
+  } else {
+    vscode.window.showInformationMessage(`Successfully retrieved ${label}${targetOrg ? ` from ${targetOrg}` : ''}`);
+  }
+
+  return retrieved;
+}
+
+/** Open the primary (non -meta.xml) file of every retrieved component. */
+async function openRetrievedFiles(files: RetrievedFile[], cwd: string): Promise<void> {
+  const byComponent = new Map<string, RetrievedFile[]>();
+  for (const f of files) {
+    if (!f?.filePath) continue;
+    const key = `${f.type ?? ''}:${f.fullName ?? ''}`;
+    const group = byComponent.get(key) ?? [];
+    group.push(f);
+    byComponent.set(key, group);
+  }
+
+  for (const group of byComponent.values()) {
+    const first = group.find(f => !f.filePath.endsWith('-meta.xml')) ?? group[0];
+    const filePath = path.isAbsolute(first.filePath)
+      ? first.filePath
+      : path.join(cwd, first.filePath);
+
+    if (fs.existsSync(filePath)) {
+      const doc = await vscode.workspace.openTextDocument(filePath);
+      // Keep every component in its own tab instead of replacing the preview tab.
+      await vscode.window.showTextDocument(doc, { preview: byComponent.size === 1 });
+    } else {
+      logWarn(`Retrieved file does not exist on disk: ${filePath}`);
+    }
+  }
+}
+
+/** Flatten useful “problem” strings from a retrieve JSON payload. */
+function collectRetrieveProblems(json: SfRetrieve): string[] {
+  return collectRetrieveProblemDetails(json).map(p => p.message);
+}
+
+function collectRetrieveProblemDetails(json: SfRetrieve): RetrieveProblem[] {
+  const msgs: Array<{ fileName?: string; problem?: string }> | string | undefined = json.result?.messages;
+  const files = json.result?.files ?? [];
+  const out: RetrieveProblem[] = [];
+
+  if (Array.isArray(msgs)) {
+    for (const m of msgs) {
+      if (m?.problem) {
+        // "Entity of type 'ApexClass' named 'Foo' cannot be found"
+        const named = /type '([^']+)' named '([^']+)'/.exec(m.problem);
+        out.push({
+          message: m.fileName ? `${m.problem} (${m.fileName})` : m.problem,
+          problem: m.problem,
+          component: named ? { type: named[1], fullName: named[2] } : undefined,
+          fileName: m.fileName
+        });
+      }
+    }
+  } else if (typeof msgs === 'string' && msgs.trim()) {
+    out.push({ message: msgs.trim(), problem: msgs.trim() });
+  }
+
+  for (const f of files) {
+    if (f?.state === 'Failed' && f?.error) {
+      const label = f.fullName && f.type ? `${f.type} ${f.fullName}` : undefined;
+      out.push({
+        message: label ? `${f.error} [${label}]` : f.error,
+        problem: f.error,
+        component: f.fullName && f.type ? { type: f.type, fullName: f.fullName } : undefined
+      });
+    }
+  }
+
+  // If CLI indicated overall failure via message/code (e.g., ENOTFOUND), include that
+  const top = buildHumanMessage(json);
+  if (top && !out.length) out.push({ message: top, problem: top });
+
+  return out;
+}
+
+/**
+ * Replace the Problems panel entries with the problems of the latest retrieve,
+ * attached to the local files of the affected components, else to sfdx-project.json.
+ */
+async function publishRetrieveDiagnostics(result: SfRetrieve, cwd: string, targetOrg?: string): Promise<void> {
+  retrieveDiagnostics.clear();
+  const problems = collectRetrieveProblemDetails(result);
+  if (!problems.length) return;
+
+  let types: MetadataType[] = [];
+  try {
+    types = await getMetadataTypes(cwd, true, undefined, targetOrg);
+  } catch (err) {
+    logWarn(`Could not map retrieve problems to files: ${String(err)}`);
+  }
+
+  const projectFile = path.join(cwd, 'sfdx-project.json');
+  const byFile = new Map<string, vscode.Diagnostic[]>();
+  for (const p of problems) {
+    const component = p.component ?? (p.fileName && types.length ? resolveComponentFromPath(p.fileName, types) : undefined);
+    const localFiles = component && types.length
+      ? (await findLocalComponentFiles([component], types, cwd)).get(`${component.type}:${component.fullName}`) ?? []
+      : [];
+    const file = localFiles.find(f => !f.endsWith('-meta.xml')) ?? localFiles[0] ?? projectFile;
+
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(0, 0, 0, 0),
+      file === projectFile ? p.message : p.problem,
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = 'NAKODX retrieve';
+    if (component) diagnostic.code = `${component.type}:${component.fullName}`;
+    byFile.set(file, [...(byFile.get(file) ?? []), diagnostic]);
+  }
+  for (const [file, diagnostics] of byFile) retrieveDiagnostics.set(vscode.Uri.file(file), diagnostics);
+}
+
+/** `project retrieve start` into the project; failures are published as diagnostics too. */
+async function runRetrieve(args: string[], cwd: string, token?: vscode.CancellationToken, targetOrg?: string): Promise<SfRetrieve> {
+  try {
+    return await runSfJson<SfRetrieve>(withTargetOrg(args, targetOrg), cwd, token, { retry: true });
+  } catch (err) {
+    if (!token?.isCancellationRequested) {
+      const failed: SfRetrieve = err instanceof SfCliError && err.rawJson
+        ? err.rawJson
+        : { status: 1, message: err instanceof Error ? err.message : String(err) };
+      await publishRetrieveDiagnostics(failed, cwd, targetOrg);
+    }
+    throw err;
+  }
+}
+
+/**
+ * ===== Project helpers =====
+ */
+async function readSfdxProject(cwd: string): Promise<SfProjectJson | null> {
+  try {
+    const data = await fs.promises.readFile(path.join(cwd, 'sfdx-project.json'), 'utf8');
+    return JSON.parse(data);
+  } catch (error) {
+    logWarn(`Could not read sfdx-project.json in ${cwd}: ${String(error)}`);
+    return null;
+  }
+}
+
+async function getPackageDirectories(cwd: string): Promise<string[]> {
+  const project = await readSfdxProject(cwd);
+  const dirs = project?.packageDirectories ?? [];
+  if (!dirs.length) return ['force-app'];
+  // Default package directory first
+  return [...dirs].sort((a, b) => Number(Boolean(b.default)) - Number(Boolean(a.default))).map(d => d.path);
+}
+
+/**
+ * Package directory that new components of `type` go into when the project has several:
+ * the `packageDirectoryByType` setting, else the user's pick (optionally remembered).
+ * Resolves to undefined when the default package directory applies, null when cancelled.
+ */
+async function resolvePackageDirectoryForType(type: string, cwd: string): Promise<string | undefined | null> {
+  const packageDirs = await getPackageDirectories(cwd);
+  if (packageDirs.length <= 1) return undefined;
+
+  // A resource setting: each project of a multi-root workspace has its own mapping
+  const config = vscode.workspace.getConfiguration('nakodx-file-retriever', vscode.Uri.file(cwd));
+  const mapping = config.get<Record<string, string>>('packageDirectoryByType', {});
+  const mapped = mapping[type];
+  if (mapped) {
+    if (packageDirs.includes(mapped)) return mapped === packageDirs[0] ? undefined : mapped;
+    logWarn(`packageDirectoryByType maps ${type} to "${mapped}", which is not a package directory in ${cwd}`);
+  }
+
+  const rememberButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('pin'),
+    tooltip: `Always use for ${type}`,
+  };
+  const qp = vscode.window.createQuickPick<vscode.QuickPickItem>();
+  qp.title = `New ${type} components`;
+  qp.placeholder = `Select the package directory to retrieve new ${type} components into`;
+  qp.items = packageDirs.map((dir, i) => ({
+    label: dir,
+    description: i === 0 ? '(default)' : undefined,
+    buttons: [rememberButton],
+  }));
+
+  const picked = await new Promise<{ dir: string; remember: boolean } | undefined>(resolve => {
+    qp.onDidAccept(() => {
+      const item = qp.selectedItems[0];
+      resolve(item ? { dir: item.label, remember: false } : undefined);
+      qp.hide();
+    });
+    qp.onDidTriggerItemButton(e => {
+      resolve({ dir: e.item.label, remember: true });
+      qp.hide();
+    });
+    qp.onDidHide(() => {
+      resolve(undefined);
+      qp.dispose();
+    });
+    qp.show();
+  });
+  if (!picked) return null;
+
+  if (picked.remember) {
+    const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    const inspected = config.inspect<Record<string, string>>('packageDirectoryByType');
+    const current = (multiRoot ? inspected?.workspaceFolderValue : inspected?.workspaceValue) ?? {};
+    await config.update(
+      'packageDirectoryByType',
+      { ...current, [type]: picked.dir },
+      multiRoot ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace
+    );
+    logInfo(`New ${type} components will be retrieved into ${picked.dir}`);
+  }
+  return picked.dir === packageDirs[0] ? undefined : picked.dir;
+}
+
+/**
+ * Split a retrieve by target package directory. Components already in the project
+ * are updated in place by the CLI, and new ones of types that go to the default
+ * package directory are written there by the CLI (key undefined); other new ones
+ * are keyed by their type's package directory. Resolves to null when the user
+ * cancels a package directory pick.
+ */
+async function groupComponentsByPackageDirectory(
+  components: MetadataComponent[],
+  cwd: string,
+  token?: vscode.CancellationToken,
+  targetOrg?: string
+): Promise<Map<string | undefined, MetadataComponent[]> | null> {
+  const groups = new Map<string | undefined, MetadataComponent[]>();
+  const addTo = (dir: string | undefined, c: MetadataComponent) => groups.set(dir, [...(groups.get(dir) ?? []), c]);
+
+  if ((await getPackageDirectories(cwd)).length <= 1) {
+    groups.set(undefined, components);
+    return groups;
+  }
+
+  const types = await getMetadataTypes(cwd, true, token, targetOrg);
+  const localFiles = await findLocalComponentFiles(components, types, cwd);
+  const dirByType = new Map<string, string | undefined>();
+  for (const c of components) {
+    if (localFiles.get(`${c.type}:${c.fullName}`)?.length) {
+      addTo(undefined, c);
+      continue;
+    }
+    if (!dirByType.has(c.type)) {
+      const dir = await resolvePackageDirectoryForType(c.type, cwd);
+      if (dir === null) return null;
+      dirByType.set(c.type, dir);
+    }
+    addTo(dirByType.get(c.type), c);
+  }
+  return groups;
+}
+
+/**
+ * Retrieve new components into a package directory other than the default one. The
+ * CLI only writes elsewhere through `--output-dir`, which must not overlap a package
+ * directory, so the files are retrieved into a temp directory and moved into
+ * `<packageDir>/main/default/`. File paths in the result point at the moved files.
+ */
+async function retrieveIntoPackageDirectory(
+  args: string[],
+  packageDir: string,
+  cwd: string,
+  token?: vscode.CancellationToken,
+  targetOrg?: string
+): Promise<SfRetrieve> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'nakodx-'));
+  try {
+    const result = await runRetrieve([...args, '--output-dir', dir], cwd, token, targetOrg);
+    for (const f of result.result?.files ?? []) {
+      if (f.state === 'Failed' || !f.filePath) continue;
+      const from = path.isAbsolute(f.filePath) ? f.filePath : path.join(cwd, f.filePath);
+      const rel = path.relative(dir, from).split(path.sep).join('/').replace(/^main\/default\//, '');
+      const to = path.join(cwd, packageDir, 'main', 'default', rel);
+      await fs.promises.mkdir(path.dirname(to), { recursive: true });
+      await fs.promises.copyFile(from, to);
+      f.filePath = to;
+    }
+    return result;
+  } finally {
+    await removeTempDir(dir);
+  }
+}
+
+/**
+ * ===== Local path → metadata component =====
+ * Works out `Type:FullName` from source-format paths using each type's
+ * `directoryName` and `suffix`, bundle folders, folder-based types and the
+ * decomposed `objects/<Object>/<childDir>/` layout.
+ */
+function stripMetadataSuffix(fileName: string, type?: MetadataType): string {
+  const isMetaFile = fileName.endsWith('-meta.xml');
+  let name = isMetaFile ? fileName.slice(0, -'-meta.xml'.length) : fileName;
+  if (type?.suffix && name.endsWith(`.${type.suffix}`)) {
+    return name.slice(0, -(type.suffix.length + 1));
+  }
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+/**
+ * Segments of `fsPath` below its package directory (or project root when it is in
+ * none), so that parent folders named like a type directory (`~/pages/proj/…`) are
+ * not mistaken for one. Paths outside a Salesforce project are split as they are.
+ */
+function getPackageRelativeSegments(fsPath: string): string[] {
+  let projectDir = path.dirname(fsPath);
+  while (!fs.existsSync(path.join(projectDir, 'sfdx-project.json'))) {
+    const parent = path.dirname(projectDir);
+    if (parent === projectDir) return fsPath.split(/[\\/]/).filter(Boolean);
+    projectDir = parent;
+  }
+
+  let packageDirs: string[] = [];
+  try {
+    const project: SfProjectJson = JSON.parse(fs.readFileSync(path.join(projectDir, 'sfdx-project.json'), 'utf8'));
+    packageDirs = (project.packageDirectories ?? []).map(d => path.resolve(projectDir, d.path));
+  } catch {
+    // Unreadable project file: fall back to the project root
+  }
+  const base = packageDirs.find(dir => fsPath.startsWith(dir + path.sep)) ?? projectDir;
+  return path.relative(base, fsPath).split(/[\\/]/).filter(Boolean);
+}
+
+function resolveComponentFromPath(fsPath: string, types: MetadataType[]): MetadataComponent | undefined {
+  const segments = getPackageRelativeSegments(fsPath);
+  const byDirectory = new Map<string, MetadataType>();
+  for (const t of types) {
+    if (t.directoryName && !byDirectory.has(t.directoryName)) byDirectory.set(t.directoryName, t);
+  }
+
+  const index = segments.findIndex(seg => byDirectory.has(seg));
+  if (index < 0) return undefined;
+  const type = byDirectory.get(segments[index])!;
+  const rest = segments.slice(index + 1);
+  if (!rest.length) return undefined;
+
+  // objects/Account/fields/Industry__c.field-meta.xml → CustomField:Account.Industry__c
+  if (type.xmlName === 'CustomObject') {
+    if (rest.length >= 3 && OBJECT_CHILD_DIRECTORIES[rest[1]]) {
+      const childType = OBJECT_CHILD_DIRECTORIES[rest[1]];
+      return { type: childType, fullName: `${rest[0]}.${stripMetadataSuffix(rest[2])}` };
+    }
+    return { type: type.xmlName, fullName: rest.length === 1 ? stripMetadataSuffix(rest[0], type) : rest[0] };
+  }
+
+  // reports/MyFolder/MyReport.report-meta.xml → Report:MyFolder/MyReport
+  const folderType = getFolderMetadataType(types, type.xmlName);
+  if (folderType) {
+    if (rest.length === 1) {
+      return rest[0].endsWith('Folder-meta.xml')
+        ? { type: folderType, fullName: rest[0].replace(/\.[^.]*Folder-meta\.xml$/, '') }
+        : undefined;
+    }
+    const fileName = rest[rest.length - 1];
+    // Document names keep their file extension (MyFolder/logo.png)
+    const name = type.xmlName === 'Document'
+      ? fileName.replace(/-meta\.xml$/, '').replace(/\.document$/, '')
+      : stripMetadataSuffix(fileName, type);
+    return { type: type.xmlName, fullName: [...rest.slice(0, -1), name].join('/') };
+  }
+
+  // Bundles (lwc/myCmp/…, aura/myCmp/…, expanded static resources…) are named after their folder
+  if (rest.length >= 2) return { type: type.xmlName, fullName: rest[0] };
+
+  return { type: type.xmlName, fullName: stripMetadataSuffix(rest[0], type) };
+}
+
+/** A folder directly inside a type directory (lwc/myCmp, objects/Account) is a single component. */
+function resolveComponentFromFolder(dirPath: string, types: MetadataType[]): MetadataComponent | undefined {
+  const type = types.find(t => t.directoryName === path.basename(path.dirname(dirPath)));
+  if (!type || getFolderMetadataType(types, type.xmlName)) return undefined;
+  return { type: type.xmlName, fullName: path.basename(dirPath) };
+}
+
+/** Resolve files and folders to a de-duplicated list of components. Folders are expanded recursively. */
+async function resolveComponentsFromUris(
+  uris: vscode.Uri[],
+  types: MetadataType[]
+): Promise<{ components: MetadataComponent[]; unresolved: string[]; fromFolder: boolean }> {
+  const seen = new Map<string, MetadataComponent>();
+  const unresolved: string[] = [];
+  let fromFolder = false;
+
+  for (const uri of uris) {
+    const stat = await fs.promises.stat(uri.fsPath);
+    let files = [uri.fsPath];
+    if (stat.isDirectory()) {
+      fromFolder = true;
+      const bundle = resolveComponentFromFolder(uri.fsPath, types);
+      if (bundle) {
+        seen.set(`${bundle.type}:${bundle.fullName}`, bundle);
+        continue;
+      }
+      const found = await vscode.workspace.findFiles(new vscode.RelativePattern(uri.fsPath, '**/*'), '**/{node_modules,.sfdx,.sf,__tests__}/**');
+      files = found.map(f => f.fsPath);
+    }
+
+    for (const file of files) {
+      const component = resolveComponentFromPath(file, types);
+      if (component) {
+        seen.set(`${component.type}:${component.fullName}`, component);
+      } else {
+        unresolved.push(file);
+      }
+    }
+  }
+
+  return { components: [...seen.values()], unresolved, fromFolder };
+}
+
+/**
+ * Local files of the given components, keyed by `Type:FullName`. Globs around the
+ * type's directory and keeps what resolveComponentFromPath maps back to the component.
+ */
+async function findLocalComponentFiles(
+  components: MetadataComponent[],
+  types: MetadataType[],
+  cwd: string
+): Promise<Map<string, string[]>> {
+  const result = new Map<string, string[]>();
+  const packageDirs = await getPackageDirectories(cwd);
+
+  for (const c of components) {
+    const key = `${c.type}:${c.fullName}`;
+    result.set(key, []);
+    const type = types.find(t => t.xmlName === c.type)
+      ?? types.find(t => t.childXmlNames?.includes(c.type))
+      ?? types.find(t => getFolderMetadataType(types, t.xmlName) === c.type);
+    if (!type?.directoryName) continue;
+
+    // Account.Industry__c → Account, MyFolder/MyReport → MyFolder, Foo → Foo
+    const head = c.fullName.split(/[./]/)[0];
+    for (const pkg of packageDirs) {
+      const found = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(path.join(cwd, pkg), `**/${type.directoryName}/{${head}.*,${head}/**}`),
+        '**/node_modules/**'
+      );
+      for (const f of found) {
+        const resolved = resolveComponentFromPath(f.fsPath, types);
+        if (resolved && resolved.type === c.type && resolved.fullName === c.fullName) result.get(key)!.push(f.fsPath);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * ===== Conflict check before retrieve =====
+ * Looks for local state a retrieve would overwrite: unsaved editors, files edited after
+ * both the server's last change and our last retrieve, and uncommitted git changes.
+ */
+function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const cp = spawn('git', args, { cwd, shell: false });
+    let out = '';
+    let err = '';
+    cp.stdout.on('data', d => out += d.toString());
+    cp.stderr.on('data', d => err += d.toString());
+    cp.on('error', reject);
+    cp.on('close', code => code === 0 ? resolve(out) : reject(new Error(err.trim() || `git exited with ${code}`)));
+  });
+}
+
+/** Server lastModifiedDate of a component from the cached item lists, if known. */
+function getCachedLastModified(orgId: string, component: MetadataComponent): number | undefined {
+  const slash = component.fullName.indexOf('/');
+  const folder = slash > 0 ? component.fullName.slice(0, slash) : undefined;
+  for (const key of [getMetadataItemsCacheKey(orgId, component.type), getMetadataItemsCacheKey(orgId, component.type, folder)]) {
+    const item = metadataItemsCache.get(key)?.items.find(i => i.fullName === component.fullName);
+    if (item?.lastModifiedDate) return Date.parse(item.lastModifiedDate);
+  }
+  return undefined;
+}
+
+async function findLocalConflicts(
+  components: MetadataComponent[],
+  level: ConflictCheckLevel,
+  cwd: string,
+  token?: vscode.CancellationToken,
+  targetOrg?: string
+): Promise<LocalConflict[]> {
+  const conflicts: LocalConflict[] = [];
+  const keys = new Set(components.map(c => `${c.type}:${c.fullName}`));
+  const types = await getMetadataTypes(cwd, true, token, targetOrg);
+
+  if (level === 'unsaved') {
+    // Cheap path: only map dirty editors back to components
+    for (const doc of vscode.workspace.textDocuments) {
+      if (!doc.isDirty || doc.uri.scheme !== 'file') continue;
+      const c = resolveComponentFromPath(doc.uri.fsPath, types);
+      if (c && keys.has(`${c.type}:${c.fullName}`)) conflicts.push({ filePath: doc.uri.fsPath, reason: 'unsaved changes in editor' });
+    }
+    return conflicts;
+  }
+
+  const localFiles = await findLocalComponentFiles(components, types, cwd);
+  const dirty = new Set(vscode.workspace.textDocuments.filter(d => d.isDirty).map(d => d.uri.fsPath));
+  const orgId = await getCurrentOrgId(cwd, targetOrg);
+  const pins = orgId ? await loadPins(orgId) : undefined;
+
+  for (const c of components) {
+    const files = localFiles.get(`${c.type}:${c.fullName}`) ?? [];
+    const serverModified = orgId ? getCachedLastModified(orgId, c) : undefined;
+    const lastRetrieved = pins?.recent.find(r => r.type === c.type && r.fullName === c.fullName)?.ts;
+    // Edited locally after the newer of the server change and our last retrieve
+    const baseline = Math.max(serverModified ?? 0, lastRetrieved ?? 0);
+
+    for (const filePath of files) {
+      if (dirty.has(filePath)) {
+        conflicts.push({ filePath, reason: 'unsaved changes in editor' });
+        continue;
+      }
+      if (baseline) {
+        const { mtimeMs } = await fs.promises.stat(filePath);
+        // 2s slack: the retrieve itself writes the files just before `ts` is recorded
+        if (mtimeMs > baseline + 2000) {
+          conflicts.push({ filePath, reason: `modified locally ${formatAge(mtimeMs)}, after the server version` });
+        }
+      }
+    }
+  }
+
+  if (level === 'strict') {
+    const allFiles = [...localFiles.values()].flat().filter(f => !conflicts.some(c => c.filePath === f));
+    if (allFiles.length) {
+      try {
+        // -z: unquoted paths relative to the repository root, renames as "XY new\0old\0"
+        const root = (await runGit(['rev-parse', '--show-toplevel'], cwd)).trim();
+        const status = await runGit(['status', '--porcelain', '-z', '--', ...allFiles.map(f => path.relative(cwd, f))], cwd);
+        const entries = status.split('\0');
+        for (let i = 0; i < entries.length; i++) {
+          const entry = entries[i];
+          if (!entry) continue;
+          const xy = entry.slice(0, 2);
+          if (xy[0] === 'R' || xy[0] === 'C') i++; // skip the original path
+          conflicts.push({ filePath: path.join(root, entry.slice(3)), reason: xy === '??' ? 'untracked in git' : 'uncommitted git changes' });
+        }
+      } catch (e) {
+        logWarn(`Skipping git conflict check: ${String(e)}`);
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/** Ask before overwriting conflicting local files; 'overwrite' when there is nothing to ask about. */
+async function checkConflictsBeforeRetrieve(
+  components: MetadataComponent[],
+  cwd: string,
+  token?: vscode.CancellationToken,
+  targetOrg?: string
+): Promise<'overwrite' | 'compare' | 'cancel'> {
+  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
+  const level = config.get<ConflictCheckLevel>('conflictCheck', 'standard');
+  if (level === 'off') return 'overwrite';
+
+  const conflicts = await findLocalConflicts(components, level, cwd, token, targetOrg);
+  if (!conflicts.length) return 'overwrite';
+
+  for (const c of conflicts) logWarn(`Local conflict: ${c.filePath} (${c.reason})`);
+  const shown = conflicts.slice(0, 10).map(c => `• ${vscode.workspace.asRelativePath(c.filePath)}: ${c.reason}`);
+  if (conflicts.length > shown.length) shown.push(`• …and ${conflicts.length - shown.length} more (see Output)`);
+
+  const overwrite = 'Overwrite';
+  const compare = 'Compare First';
+  const choice = await vscode.window.showWarningMessage(
+    `${conflicts.length} local file(s) have changes that the retrieve would overwrite.`,
+    { modal: true, detail: shown.join('\n') },
+    overwrite, compare
+  );
+  if (choice === overwrite) return 'overwrite';
+  if (choice === compare) return 'compare';
+  return 'cancel';
+}
+
+/**
+ * ===== Retrieve history (snapshots & undo) =====
+ * Before a retrieve overwrites files they are copied into a per-workspace store;
+ * "Retrieve History" can put the pre-retrieve contents back.
+ */
+function initializeHistoryDirectory(context: vscode.ExtensionContext) {
+  // Workspace storage when a folder is open, so histories of different projects don't mix
+  historyDirectory = path.join((context.storageUri ?? context.globalStorageUri).fsPath, 'retrieve-history');
+  if (!fs.existsSync(historyDirectory)) {
+    fs.mkdirSync(historyDirectory, { recursive: true });
+  }
+}
+
+function getHistoryIndexPath(): string {
+  return path.join(historyDirectory, 'index.json');
+}
+
+async function loadRetrieveHistory(): Promise<RetrieveHistoryEntry[]> {
+  try {
+    if (!fs.existsSync(getHistoryIndexPath())) return [];
+    return JSON.parse(await fs.promises.readFile(getHistoryIndexPath(), 'utf8'));
+  } catch (error) {
+    logErr(`Error loading retrieve history: ${String(error)}`);
+    return [];
+  }
+}
+
+/** Save the index after applying the retention settings; dropped entries lose their snapshots. */
+async function saveRetrieveHistory(entries: RetrieveHistoryEntry[]): Promise<void> {
+  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
+  const maxEntries = Math.max(0, Number(config.get('retrieveHistory.maxEntries', 50)));
+  const maxAgeMs = Math.max(1, Number(config.get('retrieveHistory.maxAgeDays', 30))) * 24 * 60 * 60 * 1000;
+
+  const sorted = [...entries].sort((a, b) => b.ts - a.ts);
+  const kept = sorted.filter((e, i) => i < maxEntries && Date.now() - e.ts < maxAgeMs);
+  for (const dropped of sorted.filter(e => !kept.includes(e))) {
+    await removeTempDir(path.join(historyDirectory, dropped.id));
+  }
+
+  try {
+    await fs.promises.writeFile(getHistoryIndexPath(), JSON.stringify(kept, null, 2));
+  } catch (error) {
+    logErr(`Error saving retrieve history: ${String(error)}`);
+  }
+}
+
+/** Copy the local files of `components` aside before they are overwritten; undefined when history is disabled. */
+async function takeRetrieveSnapshot(
+  components: MetadataComponent[],
+  cwd: string,
+  token?: vscode.CancellationToken,
+  targetOrg?: string
+): Promise<RetrieveSnapshot | undefined> {
+  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
+  if (Number(config.get('retrieveHistory.maxEntries', 50)) <= 0) return undefined;
+
+  try {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const dir = path.join(historyDirectory, id);
+    const snapshot: RetrieveSnapshot = { id, dir, startedAt: Date.now(), copies: new Map() };
+    if (!components.length) return snapshot;
+
+    const types = await getMetadataTypes(cwd, true, token, targetOrg);
+    const localFiles = await findLocalComponentFiles(components, types, cwd);
+    await fs.promises.mkdir(dir, { recursive: true });
+    let n = 0;
+    for (const file of new Set([...localFiles.values()].flat())) {
+      const copy = `${n++}-${path.basename(file)}`;
+      await fs.promises.copyFile(file, path.join(dir, copy));
+      snapshot.copies.set(file, copy);
+    }
+    snapshot.startedAt = Date.now();
+    return snapshot;
+  } catch (error) {
+    logWarn(`Could not snapshot local files before retrieve: ${String(error)}`);
+    return undefined;
+  }
+}
+
+/** Turn a snapshot into a history entry covering exactly the files the retrieve wrote. */
+async function finishRetrieveSnapshot(
+  snapshot: RetrieveSnapshot | undefined,
+  retrieved: RetrievedFile[],
+  components: MetadataComponent[],
+  cwd: string,
+  targetOrg?: string,
+  label?: string
+): Promise<void> {
+  if (!snapshot) return;
+  try {
+    const files: RetrieveHistoryFile[] = [];
+    const touched = new Set<string>();
+    for (const f of retrieved) {
+      const filePath = path.isAbsolute(f.filePath) ? f.filePath : path.join(cwd, f.filePath);
+      if (touched.has(filePath)) continue;
+      touched.add(filePath);
+
+      const copy = snapshot.copies.get(filePath);
+      if (copy) {
+        files.push({ path: filePath, snapshot: copy });
+        continue;
+      }
+      // Not predicted up front: either new, or overwritten without a copy (restore leaves those alone)
+      const stat = await fs.promises.stat(filePath).catch(() => undefined);
+      files.push({ path: filePath, created: Boolean(stat && stat.birthtimeMs >= snapshot.startedAt - 1000) });
+    }
+
+    // Copies of files the retrieve did not touch are not needed
+    for (const [filePath, copy] of snapshot.copies) {
+      if (!touched.has(filePath)) await fs.promises.unlink(path.join(snapshot.dir, copy)).catch(() => undefined);
+    }
+
+    if (!files.length) {
+      await removeTempDir(snapshot.dir);
+      return;
+    }
+
+    const entries = await loadRetrieveHistory();
+    entries.push({
+      id: snapshot.id,
+      ts: Date.now(),
+      org: targetOrg ?? await getDefaultTargetOrg(cwd).catch(() => undefined) ?? 'default org',
+      label: label ?? (components.length === 1 ? `${components[0].type}:${components[0].fullName}` : `${components.length} components`),
+      components: components.map(c => `${c.type}:${c.fullName}`),
+      files
+    });
+    await saveRetrieveHistory(entries);
+  } catch (error) {
+    logWarn(`Could not record retrieve history: ${String(error)}`);
+  }
+}
+
+async function showRetrieveHistory() {
+  const entries = (await loadRetrieveHistory()).sort((a, b) => b.ts - a.ts);
+  if (!entries.length) {
+    vscode.window.showInformationMessage('No retrieves recorded for this workspace yet.');
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    entries.map(e => ({
+      label: e.label,
+      description: `${e.org} · ${new Date(e.ts).toLocaleString()}`,
+      detail: `${e.files.length} file(s): ${e.files.slice(0, 5).map(f => vscode.workspace.asRelativePath(f.path)).join(', ')}${e.files.length > 5 ? ', …' : ''}`,
+      entry: e
+    })),
+    { placeHolder: 'Select a retrieve to restore the files as they were before it', matchOnDescription: true, matchOnDetail: true }
+  );
+  if (!selected) return;
+
+  const entry = selected.entry;
+  const restorable = entry.files.filter(f => f.snapshot || f.created);
+  const restore = 'Restore';
+  const choice = await vscode.window.showWarningMessage(
+    `Restore ${restorable.length} file(s) to their state before retrieving ${entry.label} (${new Date(entry.ts).toLocaleString()})?`,
+    {
+      modal: true,
+      detail: restorable.slice(0, 10).map(f => `• ${vscode.workspace.asRelativePath(f.path)}${f.created ? ' (delete, was new)' : ''}`).join('\n')
+        + (restorable.length > 10 ? `\n• …and ${restorable.length - 10} more` : '')
+    },
+    restore
+  );
+  if (choice !== restore) return;
+
+  try {
+    await restoreRetrieveHistoryEntry(entry);
+  } catch (err) {
+    showCliError('Failed to restore files', err);
+  }
+}
+
+async function restoreRetrieveHistoryEntry(entry: RetrieveHistoryEntry): Promise<void> {
+  const dir = path.join(historyDirectory, entry.id);
+  let restored = 0;
+  let deleted = 0;
+  const skipped: string[] = [];
+
+  for (const f of entry.files) {
+    if (f.snapshot) {
+      await fs.promises.mkdir(path.dirname(f.path), { recursive: true });
+      await fs.promises.copyFile(path.join(dir, f.snapshot), f.path);
+      restored++;
+    } else if (f.created) {
+      await fs.promises.rm(f.path, { force: true });
+      deleted++;
+    } else {
+      skipped.push(f.path);
+    }
+  }
+
+  for (const p of skipped) logWarn(`No pre-retrieve copy of ${p}; left unchanged.`);
+  logInfo(`Restored ${entry.label} from ${new Date(entry.ts).toLocaleString()}: ${restored} restored, ${deleted} deleted, ${skipped.length} skipped.`);
+  vscode.window.showInformationMessage(
+    `Restored ${restored} file(s)${deleted ? `, deleted ${deleted} new file(s)` : ''}${skipped.length ? `; ${skipped.length} file(s) had no snapshot (see Output)` : ''}.`
+  );
+}
+
+/**
+ * ===== Compare with server =====
+ * Retrieves into a temp directory, diffs every file against its local copy and
+ * lets the user accept (copy into the project) or discard the server version.
+ */
+interface ServerFileComparison {
+  serverPath: string;
+  localPath: string;
+  status: 'identical' | 'changed' | 'new';
+}
+
+/** Retrieve components into a fresh temp directory instead of the project. */
+async function retrieveToTempDir(
+  components: MetadataComponent[],
+  cwd: string,
+  token?: vscode.CancellationToken,
+  targetOrg?: string
+): Promise<{ dir: string; files: RetrievedFile[] }> {
+
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'nakodx-'));
+  try {
+    const args = ['project', 'retrieve', 'start', '--output-dir', dir];
+    for (const c of components) args.push('--metadata', `${c.type}:${c.fullName}`);
+    const result = await runSfJson<SfRetrieve>(withTargetOrg(args, targetOrg), cwd, token, { retry: true });
+
+    const problems = collectRetrieveProblems(result);
+    const files = (result.result?.files ?? [])
+      .filter(f => f.state !== 'Failed' && f.filePath)
+      .map(f => ({ ...f, filePath: path.isAbsolute(f.filePath) ? f.filePath : path.join(cwd, f.filePath) }));
+
+    if (problems.length && !files.length) {
+      throw new SfCliError(problems[0], { rawJson: result });
+    }
+    for (const p of problems) logErr(p);
+
+    return { dir, files };
+  } catch (err) {
+    await removeTempDir(dir);
+    throw err;
+  }
+}
+
+async function removeTempDir(dir: string): Promise<void> {
+  try {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  } catch (e) {
+    logWarn(`Failed removing temp directory ${dir}: ${String(e)}`);
+  }
+}
+
+/**
+ * Local path for a file retrieved into `outDir`: an existing file in one of the
+ * package directories when there is one, otherwise its place in the default package.
+ */
+async function findLocalCounterpart(serverPath: string, outDir: string, cwd: string): Promise<string> {
+  const rel = path.relative(outDir, serverPath).split(path.sep).join('/').replace(/^main\/default\//, '');
+  const packageDirs = await getPackageDirectories(cwd);
+
+  for (const pkg of packageDirs) {
+    for (const candidate of [path.join(cwd, pkg, 'main', 'default', rel), path.join(cwd, pkg, rel)]) {
+      if (fs.existsSync(candidate)) return candidate;
+    }
+    const found = await vscode.workspace.findFiles(new vscode.RelativePattern(path.join(cwd, pkg), `**/${rel}`), null, 1);
+    if (found.length) return found[0].fsPath;
+  }
+
+  return path.join(cwd, packageDirs[0], 'main', 'default', rel);
+}
+
+async function compareRetrievedFiles(files: RetrievedFile[], outDir: string, cwd: string): Promise<ServerFileComparison[]> {
+  const comparisons: ServerFileComparison[] = [];
+  for (const f of files) {
+    const localPath = await findLocalCounterpart(f.filePath, outDir, cwd);
+    if (!fs.existsSync(localPath)) {
+      comparisons.push({ serverPath: f.filePath, localPath, status: 'new' });
+      continue;
+    }
+    const [server, local] = await Promise.all([fs.promises.readFile(f.filePath), fs.promises.readFile(localPath)]);
+    comparisons.push({ serverPath: f.filePath, localPath, status: server.equals(local) ? 'identical' : 'changed' });
+  }
+  return comparisons;
+}
+
+async function compareComponentsWithServer(
+  components: MetadataComponent[],
+  cwd: string,
+  token?: vscode.CancellationToken,
+  targetOrg?: string
+): Promise<void> {
+
+  const { dir, files } = await retrieveToTempDir(components, cwd, token, targetOrg);
+  try {
+    const comparisons = await compareRetrievedFiles(files, dir, cwd);
+    const differing = comparisons.filter(c => c.status !== 'identical');
+    const label = components.length === 1 ? `${components[0].type}:${components[0].fullName}` : `${components.length} components`;
+
+    if (!differing.length) {
+      vscode.window.showInformationMessage(`Local copy of ${label} matches the server (${comparisons.length} file(s)).`);
+      return;
+    }
+
+    for (const c of differing) {
+      const name = path.basename(c.localPath);
+      if (c.status === 'new') {
+        logInfo(`Not in project yet: ${vscode.workspace.asRelativePath(c.localPath)}`);
+        await vscode.window.showTextDocument(vscode.Uri.file(c.serverPath), { preview: false });
+      } else {
+        await vscode.commands.executeCommand(
+          'vscode.diff',
+          vscode.Uri.file(c.localPath),
+          vscode.Uri.file(c.serverPath),
+          `${name} (Local ↔ Server)`,
+          { preview: false }
+        );
+      }
+    }
+
+    const acceptAll = 'Accept All';
+    const choose = 'Choose Files…';
+    const discard = 'Discard';
+    const choice = await vscode.window.showInformationMessage(
+      `${differing.length} of ${comparisons.length} file(s) of ${label} differ from the server. Copy the server version into the project?`,
+      acceptAll, choose, discard
+    );
+
+    let accepted: ServerFileComparison[] = [];
+    if (choice === acceptAll) {
+      accepted = differing;
+    } else if (choice === choose) {
+      const picked = await vscode.window.showQuickPick(
+        differing.map(c => ({
+          label: path.basename(c.localPath),
+          description: c.status === 'new' ? 'new file' : 'changed',
+          detail: vscode.workspace.asRelativePath(c.localPath),
+          picked: true,
+          comparison: c
+        })),
+        { placeHolder: 'Select files to overwrite with the server version', canPickMany: true }
+      );
+      accepted = picked?.map(p => p.comparison) ?? [];
+    }
+
+    for (const c of accepted) {
+      await fs.promises.mkdir(path.dirname(c.localPath), { recursive: true });
+      await fs.promises.copyFile(c.serverPath, c.localPath);
+      logInfo(`Accepted server version → ${c.localPath}`);
+    }
+
+    if (accepted.length) {
+      vscode.window.showInformationMessage(`Copied ${accepted.length} server file(s) of ${label} into the project.`);
+    } else {
+      logInfo(`Discarded server version of ${label}.`);
+    }
+  } finally {
+    await closeTabsUnder(dir);
+    await removeTempDir(dir);
+  }
+}
+
+/**
+ * Retrieve components from two orgs into temp directories and diff them file by file
+ * (left: `orgA`, right: `orgB`). A file missing in one org is diffed against an empty file.
+ */
+async function compareComponentsBetweenOrgs(
+  components: MetadataComponent[],
+  orgA: string,
+  orgB: string,
+  cwd: string,
+  token?: vscode.CancellationToken
+): Promise<void> {
+  const label = components.length === 1 ? `${components[0].type}:${components[0].fullName}` : `${components.length} components`;
+
+  const settled = await Promise.allSettled([
+    retrieveToTempDir(components, cwd, token, orgA),
+    retrieveToTempDir(components, cwd, token, orgB)
+  ]);
+  const [left, right] = settled.map(r => r.status === 'fulfilled' ? r.value : undefined);
+  const failedIndex = settled.findIndex(r => r.status === 'rejected');
+  if (!left || !right) {
+    for (const side of [left, right]) if (side) await removeTempDir(side.dir);
+    const reason = (settled[failedIndex] as PromiseRejectedResult).reason;
+    const org = failedIndex === 0 ? orgA : orgB;
+    throw new SfCliError(`Could not retrieve ${label} from ${org}: ${reason instanceof Error ? reason.message : String(reason)}`, {
+      codeStr: reason instanceof SfCliError ? reason.codeStr : undefined,
+      rawJson: reason instanceof SfCliError ? reason.rawJson : undefined,
+      targetOrg: org
+    });
+  }
+
+  try {
+    const relativeFiles = (side: { dir: string; files: RetrievedFile[] }) =>
+      new Set(side.files.map(f => path.relative(side.dir, f.filePath)));
+    const leftFiles = relativeFiles(left);
+    const rightFiles = relativeFiles(right);
+    const all = [...new Set([...leftFiles, ...rightFiles])].sort();
+
+    const differing: Array<{ rel: string; status: 'changed' | 'onlyLeft' | 'onlyRight' }> = [];
+    for (const rel of all) {
+      const leftPath = path.join(left.dir, rel);
+      const rightPath = path.join(right.dir, rel);
+      if (!leftFiles.has(rel) || !rightFiles.has(rel)) {
+        // Empty stand-in so the diff shows the whole file as added/removed
+        const missing = leftFiles.has(rel) ? rightPath : leftPath;
+        await fs.promises.mkdir(path.dirname(missing), { recursive: true });
+        await fs.promises.writeFile(missing, '');
+        differing.push({ rel, status: leftFiles.has(rel) ? 'onlyLeft' : 'onlyRight' });
+        continue;
+      }
+      const [a, b] = await Promise.all([fs.promises.readFile(leftPath), fs.promises.readFile(rightPath)]);
+      if (!a.equals(b)) differing.push({ rel, status: 'changed' });
+    }
+
+    if (!differing.length) {
+      vscode.window.showInformationMessage(`${label} is identical in ${orgA} and ${orgB} (${all.length} file(s)).`);
+      return;
+    }
+
+    for (const d of differing) {
+      const name = path.basename(d.rel);
+      const note = d.status === 'onlyLeft' ? ` (only in ${orgA})` : d.status === 'onlyRight' ? ` (only in ${orgB})` : '';
+      logInfo(`${d.status === 'changed' ? 'Differs' : 'Missing on one side'}: ${d.rel}${note}`);
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        vscode.Uri.file(path.join(left.dir, d.rel)),
+        vscode.Uri.file(path.join(right.dir, d.rel)),
+        `${name} (${orgA} ↔ ${orgB})${note}`,
+        { preview: false }
+      );
+    }
+
+    await vscode.window.showInformationMessage(
+      `${differing.length} of ${all.length} file(s) of ${label} differ between ${orgA} and ${orgB}.`,
+      'Close Diffs'
+    );
+  } finally {
+    await closeTabsUnder(right.dir);
+    await closeTabsUnder(left.dir);
+    await removeTempDir(left.dir);
+    await removeTempDir(right.dir);
+  }
+}
+
+/** Close diff/editor tabs showing files from a temp directory that is about to be removed. */
+async function closeTabsUnder(dir: string): Promise<void> {
+  const tabs = vscode.window.tabGroups.all.flatMap(g => g.tabs).filter(tab => {
+    const input = tab.input;
+    const uri = input instanceof vscode.TabInputTextDiff ? input.modified
+      : input instanceof vscode.TabInputText ? input.uri
+      : undefined;
+    return uri?.fsPath.startsWith(dir);
+  });
+  if (tabs.length) await vscode.window.tabGroups.close(tabs);
+}
+
+/**
+ * ===== Server file system =====
+ * Read-only `nakodx-org:/<org>/<Type>/<fullName>/<file>` documents, so a component
+ * can be looked at without writing it into the project. The fullName is a single
+ * segment with `%` and `/` escaped (folder types have a slash in it); everything after
+ * it is the file's path inside the component, e.g. `__tests__/myCmp.test.js`. A
+ * component is retrieved into a temp directory on first read and kept under the cache
+ * directory until the cached item list shows a newer server change or the cache TTL
+ * expires. With caching disabled, files go to a temp directory removed on deactivation.
+ */
+const ORG_FS_SCHEME = 'nakodx-org';
+const SERVER_FILES_DIRECTORY = 'server-files';
+const SERVER_FILES_INDEX = '.index.json';
+
+interface ServerFiles {
+  dir: string;
+  ts: number;
+  files: Record<string, string>; // path inside the component ('/'-separated) → path relative to dir
+}
+
+const serverFilesCache = new Map<string, Promise<ServerFiles>>(); // orgId:Type:fullName → retrieved files
+let serverFilesTempDirectory: string | undefined; // used while caching is disabled
+let orgFileSystem: OrgFileSystemProvider;
+
+function toOrgUri(targetOrg: string, component: MetadataComponent, file: string): vscode.Uri {
+  const fullName = component.fullName.replace(/%/g, '%25').replace(/\//g, '%2F');
+  return vscode.Uri.from({ scheme: ORG_FS_SCHEME, path: `/${targetOrg}/${component.type}/${fullName}/${file}` });
+}
+
+function parseOrgUri(uri: vscode.Uri): { targetOrg?: string; type?: string; fullName?: string; file?: string } {
+  const [targetOrg, type, fullName, ...file] = uri.path.split('/').filter(Boolean);
+  return {
+    targetOrg,
+    type,
+    fullName: fullName !== undefined ? decodeURIComponent(fullName) : undefined,
+    file: file.length ? file.join('/') : undefined
+  };
+}
+
+function getServerFilesPath(orgId: string, component?: MetadataComponent, cachingEnabled: boolean = true): string {
+  const root = cachingEnabled ? path.join(cacheDirectory, SERVER_FILES_DIRECTORY) : getServerFilesTempDirectory();
+  const orgDir = path.join(root, orgId);
+  return component ? path.join(orgDir, encodeURIComponent(component.type), encodeURIComponent(component.fullName)) : orgDir;
+}
+
+function getServerFilesTempDirectory(): string {
+  serverFilesTempDirectory ??= fs.mkdtempSync(path.join(os.tmpdir(), 'nakodx-server-files-'));
+  return serverFilesTempDirectory;
+}
+
+/**
+ * Keys of retrieved files: their paths below the directory all of them share, i.e.
+ * the component's own folder for bundles and objects, the type folder otherwise.
+ */
+function toComponentFilePaths(relativePaths: string[]): string[] {
+  const dirs = relativePaths.map(rel => rel.split(path.sep).slice(0, -1));
+  let common = dirs[0] ?? [];
+  for (const dir of dirs) {
+    let i = 0;
+    while (i < common.length && i < dir.length && common[i] === dir[i]) i++;
+    common = common.slice(0, i);
+  }
+  return relativePaths.map(rel => rel.split(path.sep).slice(common.length).join('/'));
+}
+
+/** Retrieved files of a component, from memory, disk (when caching is enabled) or the org. */
+async function loadServerFiles(
+  targetOrg: string,
+  component: MetadataComponent,
+  cwd: string,
+  forceRefresh: boolean = false,
+  token?: vscode.CancellationToken
+): Promise<ServerFiles> {
+  const orgId = await getCurrentOrgId(cwd, targetOrg);
+  if (!orgId) throw new Error(`Could not determine the org ID of ${targetOrg}`);
+  const key = `${orgId}:${component.type}:${component.fullName}`;
+  const isStale = (files: ServerFiles) => !isFresh(files.ts) || (getCachedLastModified(orgId, component) ?? 0) > files.ts;
+
+  const cached = forceRefresh ? undefined : serverFilesCache.get(key);
+  if (cached) {
+    const files = await cached.catch(() => undefined);
+    if (files && !isStale(files)) return files;
+  }
+
+  const promise = (async () => {
+    const cachingEnabled = Boolean(vscode.workspace.getConfiguration('nakodx-file-retriever').get('enableCache', true));
+    const dir = getServerFilesPath(orgId, component, cachingEnabled);
+    if (cachingEnabled && !forceRefresh) {
+      const onDisk = await readJsonFile<Omit<ServerFiles, 'dir'>>(path.join(dir, SERVER_FILES_INDEX));
+      if (onDisk && !isStale({ dir, ...onDisk })) return { dir, ...onDisk };
+    }
+
+    logInfo(`Retrieving ${component.type}:${component.fullName} from ${targetOrg} for ${ORG_FS_SCHEME}:`);
+    const retrieved = await retrieveToTempDir([component], cwd, token, targetOrg);
+    try {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+      const files: Record<string, string> = {};
+      const relativePaths = [...new Set(retrieved.files.map(f => path.relative(retrieved.dir, f.filePath)))];
+      const keys = toComponentFilePaths(relativePaths);
+      for (const [i, rel] of relativePaths.entries()) {
+        await fs.promises.mkdir(path.dirname(path.join(dir, rel)), { recursive: true });
+        await fs.promises.copyFile(path.join(retrieved.dir, rel), path.join(dir, rel));
+        files[keys[i]] = rel;
+      }
+      const serverFiles: ServerFiles = { dir, ts: Date.now(), files };
+      await fs.promises.writeFile(path.join(dir, SERVER_FILES_INDEX), JSON.stringify({ ts: serverFiles.ts, files }), 'utf8');
+      return serverFiles;
+    } finally {
+      await removeTempDir(retrieved.dir);
+    }
+  })();
+
+  serverFilesCache.set(key, promise);
+  promise.catch(() => {
+    if (serverFilesCache.get(key) === promise) serverFilesCache.delete(key);
+  });
+  return promise;
+}
+
+async function deleteServerFiles(orgId: string): Promise<number> {
+  const keys = [...serverFilesCache.keys()].filter(k => k.startsWith(`${orgId}:`));
+  for (const key of keys) serverFilesCache.delete(key);
+  await fs.promises.rm(getServerFilesPath(orgId), { recursive: true, force: true });
+  if (serverFilesTempDirectory) await fs.promises.rm(getServerFilesPath(orgId, undefined, false), { recursive: true, force: true });
+  return keys.length;
+}
+
+class OrgFileSystemProvider implements vscode.FileSystemProvider {
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this.changeEmitter.event;
+
+  /** Make open documents re-read files that were retrieved again. */
+  changed(uris: vscode.Uri[]) {
+    this.changeEmitter.fire(uris.map(uri => ({ type: vscode.FileChangeType.Changed, uri })));
+  }
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => undefined);
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const directory = { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0, permissions: vscode.FilePermission.Readonly };
+    const { targetOrg, type, fullName, file } = parseOrgUri(uri);
+    if (!targetOrg || !type || !fullName || !file) return directory;
+    const { dir, ts, files } = await this.load(uri, targetOrg, { type, fullName });
+    if (!files[file]) {
+      if (Object.keys(files).some(name => name.startsWith(`${file}/`))) return directory;
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    const stat = await fs.promises.stat(path.join(dir, files[file]));
+    return { type: vscode.FileType.File, ctime: ts, mtime: ts, size: stat.size, permissions: vscode.FilePermission.Readonly };
+  }
+
+  /** Lists the files and folders of a component; orgs and types aren't listed. */
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const { targetOrg, type, fullName, file } = parseOrgUri(uri);
+    if (!targetOrg || !type || !fullName) return [];
+    const { files } = await this.load(uri, targetOrg, { type, fullName });
+    const prefix = file ? `${file}/` : '';
+    const entries = new Map<string, vscode.FileType>();
+    for (const name of Object.keys(files)) {
+      if (!name.startsWith(prefix)) continue;
+      const [first, ...rest] = name.slice(prefix.length).split('/');
+      entries.set(first, rest.length ? vscode.FileType.Directory : vscode.FileType.File);
+    }
+    return [...entries];
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    return fs.promises.readFile((await this.resolve(uri)).filePath);
+  }
+
+  createDirectory(uri: vscode.Uri): never {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  writeFile(uri: vscode.Uri): never {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  delete(uri: vscode.Uri): never {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(uri: vscode.Uri): never {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  private async resolve(uri: vscode.Uri): Promise<{ filePath: string; ts: number }> {
+    const { targetOrg, type, fullName, file } = parseOrgUri(uri);
+    if (!targetOrg || !type || !fullName || !file) throw vscode.FileSystemError.FileNotFound(uri);
+    const { dir, ts, files } = await this.load(uri, targetOrg, { type, fullName });
+    if (!files[file]) throw vscode.FileSystemError.FileNotFound(uri);
+    return { filePath: path.join(dir, files[file]), ts };
+  }
+
+  private async load(uri: vscode.Uri, targetOrg: string, component: MetadataComponent): Promise<ServerFiles> {
+    const cwd = getProjectFolder()?.uri.fsPath;
+    if (!cwd) throw vscode.FileSystemError.Unavailable('No workspace folder open');
+    try {
+      return await loadServerFiles(targetOrg, component, cwd);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logErr(`Failed to read ${uri.toString(true)}: ${message}`);
+      throw vscode.FileSystemError.Unavailable(message);
+    }
+  }
+}
+
+function registerOrgFileSystem(context: vscode.ExtensionContext) {
+  orgFileSystem = new OrgFileSystemProvider();
+  context.subscriptions.push(
+    vscode.workspace.registerFileSystemProvider(ORG_FS_SCHEME, orgFileSystem, { isCaseSensitive: true, isReadonly: true }),
+    // Synchronous, as deactivation doesn't wait for promises of disposables
+    new vscode.Disposable(() => {
+      if (serverFilesTempDirectory) fs.rmSync(serverFilesTempDirectory, { recursive: true, force: true });
+    })
+  );
+}
+
+async function peekServerVersion(cwd: string, uri?: vscode.Uri) {
+  await withCliProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'NAKODX: Peek Server Version',
+    cancellable: true
+  }, async (progress, token) => {
+    try {
+      let components: MetadataComponent[] | undefined;
+      if (uri?.scheme === 'file') {
+        progress.report({ message: 'Getting metadata types…' });
+        const types = await getMetadataTypes(cwd, true, token);
+        components = (await resolveComponentsFromUris([uri], types)).components;
+        if (!components.length) {
+          vscode.window.showErrorMessage('Could not determine the metadata type and name of the file.');
+          return;
+        }
+      } else {
+        components = await pickMetadataComponents(cwd, progress, token, { useCache: true });
+        if (!components?.length) return;
+      }
+
+      const targetOrg = await getDefaultTargetOrg(cwd);
+      if (!targetOrg) throw new SfCliError('No default target org found for this project.', { codeStr: 'NoDefaultEnvError' });
+
+      progress.report({ message: `Retrieving ${components[0].type}:${components[0].fullName}…` });
+      await peekComponent(components[0], targetOrg, cwd, token);
+    } catch (err) {
+      showCliError('Failed to peek server version', err, () => peekServerVersion(cwd, uri));
+    }
+  });
+}
+
+/** Retrieve the current server version of a component and open its main file read-only. */
+async function peekComponent(component: MetadataComponent, targetOrg: string, cwd: string, token?: vscode.CancellationToken): Promise<void> {
+  const label = `${component.type}:${component.fullName}`;
+  // Peeking asks for the current server state, so the cached copy is not used
+  const { files } = await loadServerFiles(targetOrg, component, cwd, true, token);
+  const names = Object.keys(files);
+  if (!names.length) throw new Error(`The server returned no files for ${label}`);
+
+  const uris = names.map(name => toOrgUri(targetOrg, component, name));
+  orgFileSystem.changed(uris);
+  const main = uris[names.findIndex(n => !n.endsWith('-meta.xml'))] ?? uris[0];
+  await vscode.window.showTextDocument(main, { preview: false });
+
+  const save = 'Save into Project';
+  vscode.window.showInformationMessage(`Showing the ${targetOrg} version of ${label} (read-only).`, save).then(choice => {
+    if (choice === save) saveServerVersionIntoProject(cwd, main);
+  });
+}
+
+/** Copy the files of a `nakodx-org:` component into the project, over the local copies. */
+async function saveServerVersionIntoProject(cwd: string, uri?: vscode.Uri) {
+  uri ??= vscode.window.activeTextEditor?.document.uri;
+  const { targetOrg, type, fullName } = uri?.scheme === ORG_FS_SCHEME ? parseOrgUri(uri) : { targetOrg: undefined, type: undefined, fullName: undefined };
+  if (!targetOrg || !type || !fullName) {
+    vscode.window.showErrorMessage('Open a server version (NAKODX: Peek Server Version) to save it into the project.');
+    return;
+  }
+  const label = `${type}:${fullName}`;
+
+  try {
+    const { dir, files } = await loadServerFiles(targetOrg, { type, fullName }, cwd);
+    const copies = await Promise.all(Object.values(files).map(async rel => {
+      const serverPath = path.join(dir, rel);
+      return { serverPath, localPath: await findLocalCounterpart(serverPath, dir, cwd) };
+    }));
 
-  // Cache: memory & disk
-  if (useCache && currentOrgId) {
-    if (metadataTypesCache && metadataTypesCache.orgId === currentOrgId && isFresh(metadataTypesCache.ts)) {
-      return metadataTypesCache.metadataTypes;
+    const changed: string[] = [];
+    for (const c of copies) {
+      if (!fs.existsSync(c.localPath)) continue;
+      const [server, local] = await Promise.all([fs.promises.readFile(c.serverPath), fs.promises.readFile(c.localPath)]);
+      if (!server.equals(local)) changed.push(vscode.workspace.asRelativePath(c.localPath));
+    }
+    if (changed.length) {
+      const overwrite = 'Overwrite';
+      const choice = await vscode.window.showWarningMessage(
+        `Overwrite ${changed.length} local file(s) of ${label} with the ${targetOrg} version?`,
+        { modal: true, detail: changed.join('\n') },
+        overwrite
+      );
+      if (choice !== overwrite) return;
     }
-    const diskCache = await loadMetadataTypesFromDisk(currentOrgId);
-    if (diskCache) {
-      metadataTypesCache = diskCache;
-      return diskCache.metadataTypes;
+
+    for (const c of copies) {
+      await fs.promises.mkdir(path.dirname(c.localPath), { recursive: true });
+      await fs.promises.copyFile(c.serverPath, c.localPath);
+      logInfo(`Saved server version → ${c.localPath}`);
     }
+
+    const main = copies.find(c => !c.localPath.endsWith('-meta.xml')) ?? copies[0];
+    const open = 'Open';
+    const choice = await vscode.window.showInformationMessage(`Saved ${copies.length} file(s) of ${label} into the project.`, open);
+    if (choice === open && main) await vscode.window.showTextDocument(vscode.Uri.file(main.localPath));
+  } catch (err) {
+    showCliError('Failed to save the server version into the project', err, () => saveServerVersionIntoProject(cwd, uri));
   }
+}
 
-  // Fetch
-  const json = await runSfJson<SfListMetadataTypes>(['org', 'list', 'metadata-types'], cwd, token);
-  const types = json.result?.metadataObjects ?? [];
+/**
+ * ===== Deploy =====
+ * `sf project deploy start --source-dir` for the active file (its whole bundle for
+ * LWC/Aura/…) or the Explorer selection, optionally check-only (`--dry-run`).
+ * Component failures are shown as diagnostics at the reported line and column.
+ */
+async function deployToServer(cwd: string, targets: vscode.Uri[], checkOnly: boolean = false) {
+  const fileTargets = targets.filter(t => t.scheme === 'file');
+  if (!fileTargets.length) {
+    vscode.window.showErrorMessage(`Open or select Salesforce source files to ${checkOnly ? 'validate' : 'deploy'}.`);
+    return;
+  }
+  const verb = checkOnly ? 'Validate' : 'Deploy';
 
-  // Cache only if enabled
-  if (cachingEnabled && currentOrgId) {
-    metadataTypesCache = { orgId: currentOrgId, metadataTypes: types, ts: Date.now() };
-    await saveMetadataTypesToDisk(metadataTypesCache);
+  await withCliProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: `NAKODX: ${verb}`,
+    cancellable: true
+  }, async (progress, token) => {
+    try {
+      progress.report({ message: 'Resolving source paths…' });
+      const types = await getMetadataTypes(cwd, true, token);
+      const sourcePaths = [...new Set(fileTargets.map(t => getDeploySourcePath(t.fsPath, types)))];
+      const components = fileTargets.map(t => resolveComponentFromPath(t.fsPath, types));
+      const label = sourcePaths.length === 1 && components[0]
+        ? `${components[0].type}:${components[0].fullName}`
+        : `${sourcePaths.length} path(s)`;
+
+      // sf deploys what is on disk
+      const isUnder = (file: string) => sourcePaths.some(p => file === p || file.startsWith(p + path.sep));
+      const dirty = vscode.workspace.textDocuments.filter(d => d.isDirty && d.uri.scheme === 'file' && isUnder(d.uri.fsPath));
+      if (dirty.length) {
+        const save = `Save and ${verb}`;
+        const choice = await vscode.window.showWarningMessage(
+          `${dirty.length} file(s) of ${label} have unsaved changes.`,
+          { modal: true },
+          save
+        );
+        if (choice !== save) return;
+        for (const d of dirty) await d.save();
+      }
+
+      const targetOrg = await getDefaultTargetOrg(cwd);
+      if (!targetOrg) throw new SfCliError('No default target org found for this project.', { codeStr: 'NoDefaultEnvError' });
+      const org = await findOrgAuth(targetOrg, cwd).catch(err => {
+        logWarn(`Could not look up ${targetOrg} before deploying: ${err instanceof Error ? err.message : String(err)}`);
+        return undefined;
+      });
+      const orgName = org?.alias ?? org?.username ?? targetOrg;
+      // Fail closed: an org whose kind is unknown is confirmed like production
+      const kind = org && getOrgKind(org);
+      if (!checkOnly && kind !== 'Sandbox' && kind !== 'Scratch') {
+        const proceed = kind ? 'Deploy to Production' : 'Deploy';
+        const choice = await vscode.window.showWarningMessage(
+          kind
+            ? `${orgName} is a production org. Deploy ${label} to it?`
+            : `Could not determine whether ${orgName} is a production org. Deploy ${label} to it?`,
+          { modal: true, detail: 'Use "NAKODX: Validate Deploy (Check Only)" to run a check-only deploy first.' },
+          proceed
+        );
+        if (choice !== proceed) return;
+      }
+
+      // The confirmed org, even if the project default changes meanwhile
+      const args = withTargetOrg(['project', 'deploy', 'start'], targetOrg);
+      for (const p of sourcePaths) args.push('--source-dir', p);
+      if (checkOnly) args.push('--dry-run');
+
+      progress.report({ message: `${checkOnly ? 'Validating' : 'Deploying'} ${label} to ${orgName}…` });
+      let result: SfDeploy;
+      try {
+        result = await runSfJson<SfDeploy>(args, cwd, token);
+      } catch (err) {
+        if (err instanceof SfCliError && err.rawJson?.result) await publishDeployDiagnostics(err.rawJson, cwd);
+        throw err;
+      }
+
+      const failures = await publishDeployDiagnostics(result, cwd);
+      if (failures) {
+        vscode.window.showWarningMessage(`${verb} of ${label} reported ${failures} problem(s). See the Problems panel.`);
+        return;
+      }
+      for (const f of result.result?.files ?? []) logInfo(`${checkOnly ? 'Validated' : 'Deployed'} ${f.type}:${f.fullName} ← ${f.filePath}`);
+      vscode.window.showInformationMessage(`${checkOnly ? 'Validated' : 'Deployed'} ${label} ${checkOnly ? 'against' : 'to'} ${orgName}.`);
+    } catch (err) {
+      showCliError(`${verb} failed`, err, () => deployToServer(cwd, targets, checkOnly));
+    }
+  });
+}
+
+/** `--source-dir` for a file: the bundle folder for bundle types (lwc/myCmp), else the file itself. */
+function getDeploySourcePath(fsPath: string, types: MetadataType[]): string {
+  const component = resolveComponentFromPath(fsPath, types);
+  const type = component && types.find(t => t.xmlName === component.type);
+  if (!component || !type?.directoryName || type.xmlName === 'CustomObject' || getFolderMetadataType(types, type.xmlName)) {
+    return fsPath;
+  }
+  for (let dir = path.dirname(fsPath); dir !== path.dirname(dir); dir = path.dirname(dir)) {
+    if (path.basename(dir) === component.fullName && path.basename(path.dirname(dir)) === type.directoryName) return dir;
   }
+  return fsPath;
+}
+
+/**
+ * Replace the deploy entries of the Problems panel with the component failures of a
+ * deploy, and reveal the first one. Resolves to the number of failures.
+ */
+async function publishDeployDiagnostics(json: SfDeploy, cwd: string): Promise<number> {
+  deployDiagnostics.clear();
+  const toAbsolute = (p: string) => path.isAbsolute(p) ? p : path.join(cwd, p);
+
+  const failures: Array<{ file?: string; problem: string; line?: number; column?: number; component?: string }> = [];
+  for (const f of json.result?.files ?? []) {
+    if (f.state !== 'Failed' || !f.error) continue;
+    failures.push({
+      file: f.filePath ? toAbsolute(f.filePath) : undefined,
+      problem: f.error,
+      line: f.lineNumber,
+      column: f.columnNumber,
+      component: f.type && f.fullName ? `${f.type}:${f.fullName}` : undefined
+    });
+  }
+  if (!failures.length) {
+    const componentFailures = json.result?.details?.componentFailures;
+    for (const f of Array.isArray(componentFailures) ? componentFailures : componentFailures ? [componentFailures] : []) {
+      if (!f.problem) continue;
+      failures.push({
+        file: f.fileName && fs.existsSync(toAbsolute(f.fileName)) ? toAbsolute(f.fileName) : undefined,
+        problem: f.problem,
+        line: f.lineNumber !== undefined ? Number(f.lineNumber) : undefined,
+        column: f.columnNumber !== undefined ? Number(f.columnNumber) : undefined,
+        component: f.componentType && f.fullName ? `${f.componentType}:${f.fullName}` : undefined
+      });
+    }
+  }
+  if (!failures.length) return 0;
+
+  const projectFile = path.join(cwd, 'sfdx-project.json');
+  const byFile = new Map<string, vscode.Diagnostic[]>();
+  let first: { file: string; range: vscode.Range } | undefined;
+  for (const f of failures) {
+    const file = f.file ?? projectFile;
+    // Line and column are 1-based; the squiggle runs to the end of the line
+    const line = Math.max(0, (f.line || 1) - 1);
+    const column = Math.max(0, (f.column || 1) - 1);
+    const range = new vscode.Range(line, column, line, Number.MAX_SAFE_INTEGER);
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      file === projectFile && f.component ? `${f.problem} [${f.component}]` : f.problem,
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = 'NAKODX deploy';
+    if (f.component) diagnostic.code = f.component;
+    byFile.set(file, [...(byFile.get(file) ?? []), diagnostic]);
+    logErr(`${f.component ?? vscode.workspace.asRelativePath(file)}${f.line ? ` (${f.line}:${f.column ?? 1})` : ''}: ${f.problem}`);
+    if (!first && file !== projectFile) first = { file, range: new vscode.Range(line, column, line, column) };
+  }
+  for (const [file, diagnostics] of byFile) deployDiagnostics.set(vscode.Uri.file(file), diagnostics);
 
-  return types;
+  if (first) {
+    await vscode.window.showTextDocument(vscode.Uri.file(first.file), { selection: first.range, preview: false });
+  }
+  return failures.length;
 }
 
-async function getMetadataItems(metadataType: string, token?: vscode.CancellationToken): Promise<MetadataItem[]> {
-  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
-  const cachingEnabled = Boolean(config.get('enableCache', true));
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-  if (!workspaceFolder) throw new Error('No workspace folder open');
-  const cwd = workspaceFolder.uri.fsPath;
+/**
+ * ===== package.xml manifests =====
+ */
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
 
-  const currentOrgId = await getCurrentOrgId();
-  const cacheKey = currentOrgId ? `${currentOrgId}:${metadataType}` : undefined;
+function unescapeXml(value: string): string {
+  return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
 
-  // Memory cache (only if enabled)
-  if (cacheKey && cachingEnabled) {
-    const cached = metadataItemsCache.get(cacheKey);
-    if (cached && isFresh(cached.ts)) return cached.items;
+/** Members per type and the API version of an existing package.xml. */
+function parseManifest(xml: string): { types: Map<string, Set<string>>; version?: string } {
+  const types = new Map<string, Set<string>>();
+  for (const block of xml.match(/<types>[\s\S]*?<\/types>/g) ?? []) {
+    const name = /<name>([\s\S]*?)<\/name>/.exec(block)?.[1]?.trim();
+    if (!name) continue;
+    const members = types.get(unescapeXml(name)) ?? new Set<string>();
+    for (const m of block.matchAll(/<members>([\s\S]*?)<\/members>/g)) members.add(unescapeXml(m[1].trim()));
+    types.set(unescapeXml(name), members);
+  }
+  const version = /<version>([\s\S]*?)<\/version>/.exec(xml)?.[1]?.trim();
+  return { types, version };
+}
 
-    // Disk cache
-    const diskCache = await loadMetadataItemsFromDisk(currentOrgId!, metadataType);
-    if (diskCache) {
-      metadataItemsCache.set(cacheKey, diskCache);
-      return diskCache.items;
-    }
+function buildTypesBlocks(types: Map<string, Set<string>>): string[] {
+  const lines: string[] = [];
+  for (const name of [...types.keys()].sort((a, b) => a.localeCompare(b))) {
+    // Wildcard first, then members alphabetically
+    const members = [...types.get(name)!].sort((a, b) => (a === '*' ? -1 : b === '*' ? 1 : a.localeCompare(b)));
+    lines.push('    <types>');
+    for (const m of members) lines.push(`        <members>${escapeXml(m)}</members>`);
+    lines.push(`        <name>${escapeXml(name)}</name>`);
+    lines.push('    </types>');
   }
+  return lines;
+}
 
-  // Coalesce in-flight requests for same key
-  if (cacheKey && inflightItems.has(cacheKey)) return inflightItems.get(cacheKey)!;
+function buildManifest(types: Map<string, Set<string>>, version: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Package xmlns="http://soap.sforce.com/2006/04/metadata">',
+    ...buildTypesBlocks(types),
+    `    <version>${version}</version>`,
+    '</Package>'
+  ];
+  return lines.join('\n') + '\n';
+}
 
-  const fetchPromise = (async () => {
-    const json = await runSfJson<SfListMetadata>(['org', 'list', 'metadata', '-m', metadataType], cwd, token);
-    const items = json.result ?? [];
+/**
+ * Replace the `<types>` blocks of an existing package.xml, keeping its version,
+ * comments and other elements as written. Undefined when there is nowhere to put them.
+ */
+function replaceManifestTypes(xml: string, types: Map<string, Set<string>>): string | undefined {
+  const blocks = buildTypesBlocks(types).map(line => line + '\n').join('');
+  const blockPattern = /[ \t]*<types>[\s\S]*?<\/types>[ \t]*(\r?\n)?/g;
+  const first = xml.search(blockPattern);
+  const stripped = xml.replace(blockPattern, '');
+  // Where the first block was, else before <version> or </Package>
+  const at = first >= 0 ? first : stripped.search(/[ \t]*(<version>|<\/Package>)/);
+  if (at < 0) return undefined;
+  return stripped.slice(0, at) + blocks + stripped.slice(at);
+}
 
-  if (cachingEnabled && cacheKey && currentOrgId) {
-      const cacheData: CachedMetadataItems = {
-        orgId: currentOrgId,
-        metadataType,
-        items,
-        ts: Date.now()
-      };
-      metadataItemsCache.set(cacheKey, cacheData);
-      await saveMetadataItemsToDisk(cacheData);
-    }
+/** The manifest's own version, else sourceApiVersion from sfdx-project.json, else the org's API version. */
+async function resolveApiVersion(cwd: string, manifestVersion?: string): Promise<string> {
+  if (manifestVersion) return manifestVersion;
+  const project = await readSfdxProject(cwd);
+  if (project?.sourceApiVersion) return project.sourceApiVersion;
+  const org = await runSfJson<SfOrgDisplay>(['org', 'display'], cwd, undefined, { retry: true });
+  if (org.result?.apiVersion) return org.result.apiVersion;
+  throw new Error('Could not determine the API version for package.xml');
+}
 
-    return items;
-  })();
+/** Pick types/items (one type per round) and write or merge them into a package.xml. */
+async function addToManifest(cwd: string) {
+  const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+  const manifestPath = activePath && path.basename(activePath) === 'package.xml'
+    ? activePath
+    : path.join(cwd, DEFAULT_MANIFEST_PATH);
+
+  const picked: MetadataComponent[] = [];
+  const addMore = 'Add More…';
+  const write = `Write ${vscode.workspace.asRelativePath(manifestPath)}`;
+  for (;;) {
+    const components = await withCliProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'NAKODX: Add to package.xml',
+      cancellable: true
+    }, (progress, token) => pickMetadataComponents(cwd, progress, token, { multiSelect: true }));
+    if (components?.length) picked.push(...components);
+    if (!picked.length) return;
+
+    const choice = await vscode.window.showInformationMessage(
+      `${picked.length} member(s) selected for package.xml.`,
+      write, addMore
+    );
+    if (choice === write) break;
+    if (choice !== addMore) return;
+  }
 
-  if (cacheKey && cachingEnabled) inflightItems.set(cacheKey, fetchPromise);
   try {
-    return await fetchPromise;
-  } finally {
-    if (cacheKey && cachingEnabled) inflightItems.delete(cacheKey);
+    const xml = fs.existsSync(manifestPath) ? await fs.promises.readFile(manifestPath, 'utf8') : undefined;
+    const existing = xml !== undefined
+      ? parseManifest(xml)
+      : { types: new Map<string, Set<string>>(), version: undefined };
+
+    let added = 0;
+    for (const c of picked) {
+      const members = existing.types.get(c.type) ?? new Set<string>();
+      if (!members.has(c.fullName) && !members.has('*')) {
+        members.add(c.fullName);
+        added++;
+      }
+      existing.types.set(c.type, members);
+    }
+
+    let version = existing.version;
+    let content = xml !== undefined ? replaceManifestTypes(xml, existing.types) : undefined;
+    if (content === undefined) {
+      version = await resolveApiVersion(cwd, existing.version);
+      content = buildManifest(existing.types, version);
+    }
+    await fs.promises.mkdir(path.dirname(manifestPath), { recursive: true });
+    await fs.promises.writeFile(manifestPath, content);
+    logInfo(`Wrote ${manifestPath} (${added} new member(s), API ${version ?? 'not set'})`);
+
+    const doc = await vscode.workspace.openTextDocument(manifestPath);
+    await vscode.window.showTextDocument(doc);
+    vscode.window.showInformationMessage(`Added ${added} member(s) to ${vscode.workspace.asRelativePath(manifestPath)}.`);
+  } catch (err) {
+    showCliError('Failed to update package.xml', err);
   }
 }
 
-/** Apply user configuration for TTL and potentially purge caches if disabled */
-function applyConfigSettings() {
-  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
-  const days = Math.min(30, Math.max(1, Number(config.get('cacheTtlDays', 30))));
-  TTL_MS = days * 24 * 60 * 60 * 1000;
-  const cachingEnabled = Boolean(config.get('enableCache', true));
-  logInfo(`Cache settings applied. Enabled=${cachingEnabled} TTL_DAYS=${days}`);
-  if (!cachingEnabled) {
-    metadataTypesCache = null;
-    metadataItemsCache.clear();
-    // Remove on-disk cache files as well
+/** Pick a manifest: the Explorer selection or active package.xml, else any package.xml in the workspace. */
+async function pickManifest(uri?: vscode.Uri): Promise<string | undefined> {
+  if (uri?.scheme === 'file') return uri.fsPath;
+  const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+  if (activePath && path.basename(activePath) === 'package.xml') return activePath;
+
+  const found = await vscode.workspace.findFiles('**/package.xml', '**/{node_modules,.sfdx,.sf}/**');
+  if (!found.length) {
+    vscode.window.showErrorMessage('No package.xml found in the workspace. Use "NAKODX: Add to package.xml…" to create one.');
+    return undefined;
+  }
+  if (found.length === 1) return found[0].fsPath;
+
+  const selected = await vscode.window.showQuickPick(
+    found.map(f => ({ label: vscode.workspace.asRelativePath(f), fsPath: f.fsPath })),
+    { placeHolder: 'Select a package.xml to retrieve' }
+  );
+  return selected?.fsPath;
+}
+
+async function retrieveFromManifest(cwd: string, uri?: vscode.Uri) {
+  const manifestPath = await pickManifest(uri);
+  if (!manifestPath) return;
+  const label = vscode.workspace.asRelativePath(manifestPath);
+
+  await withCliProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: `Retrieving ${label}…`,
+    cancellable: true
+  }, async (_progress, token) => {
     try {
-      if (cacheDirectory && fs.existsSync(cacheDirectory)) {
-        const files = fs.readdirSync(cacheDirectory);
-        let deleted = 0;
-        for (const f of files) {
-          if (f.startsWith('metadata-types-') || f.startsWith('metadata-items-')) {
-            try {
-              fs.unlinkSync(path.join(cacheDirectory, f));
-              deleted++;
-            } catch (e) {
-              logWarn(`Failed deleting cache file ${f}: ${String(e)}`);
-            }
-          }
-        }
-        logInfo(`Disk cache cleared (${deleted} file(s) removed).`);
+      // Wildcard members cannot be checked or snapshotted up front; their files are still listed in the history
+      const { types } = parseManifest(await fs.promises.readFile(manifestPath, 'utf8'));
+      const components = [...types].flatMap(([type, members]) =>
+        [...members].filter(m => m !== '*').map(fullName => ({ type, fullName })));
+
+      const decision = await checkConflictsBeforeRetrieve(components, cwd, token);
+      if (decision === 'cancel') return;
+      if (decision === 'compare') {
+        await compareComponentsWithServer(components, cwd, token);
+        return;
       }
-    } catch (e) {
-      logWarn(`Error while clearing disk cache: ${String(e)}`);
+
+      const snapshot = await takeRetrieveSnapshot(components, cwd, token);
+      let retrieved: RetrievedFile[] = [];
+      try {
+        const result = await runRetrieve(['project', 'retrieve', 'start', '--manifest', manifestPath], cwd, token);
+        retrieved = await reportRetrieveResult(result, label, cwd);
+      } finally {
+        await finishRetrieveSnapshot(snapshot, retrieved, components, cwd, undefined, label);
+      }
+    } catch (err) {
+      showCliError(`Failed to retrieve ${label}`, err, () => retrieveFromManifest(cwd, vscode.Uri.file(manifestPath)));
     }
-  }
+  });
 }
 
 /**
- * ===== QuickPick helpers =====
+ * ===== Metadata Explorer tree view =====
+ * org → metadata type → (folder →) items, loaded lazily through the cached data providers.
  */
-async function showMetadataTypeQuickPick(metadataTypes: MetadataType[]): Promise<string | undefined> {
-  const items: vscode.QuickPickItem[] = metadataTypes.map(type => ({
-    label: type.xmlName,
-    description: type.directoryName,
-    detail: `${type.childXmlNames?.length || 0} child types`
-  }));
+type ExplorerNode =
+  | { kind: 'org'; targetOrg: string; orgId: string; username: string; isDefault: boolean }
+  | { kind: 'type'; targetOrg: string; orgId: string; metadataType: string; folderType?: string }
+  | { kind: 'folder'; targetOrg: string; orgId: string; metadataType: string; folder: string }
+  | { kind: 'item'; targetOrg: string; orgId: string; metadataType: string; item: MetadataItem }
+  | { kind: 'message'; message: string };
 
-  const selectedItem = await vscode.window.showQuickPick(items, {
-    placeHolder: 'Select a metadata type (e.g., ApexClass)',
-    matchOnDescription: true,
-    matchOnDetail: true
-  });
+class MetadataExplorerProvider implements vscode.TreeDataProvider<ExplorerNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<ExplorerNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+  filter = '';
+  private orgList?: Promise<SfAuthList>; // `sf org list auth`, kept until reloaded
+  private readonly shown = new Map<ExplorerNode | undefined, ExplorerNode[]>(); // parent → children last returned
 
-  return selectedItem?.label;
-}
+  refresh(node?: ExplorerNode) {
+    this.changeEmitter.fire(node);
+  }
 
-async function showMetadataItemQuickPick(
-  metadataItems: MetadataItem[],
-  metadataType: string
-): Promise<{ name: string; fileName: string | null } | undefined> {
-  const items: vscode.QuickPickItem[] = metadataItems.map(item => {
-    const created = item.createdDate ? new Date(item.createdDate).toLocaleDateString() : 'Unknown';
-    return {
-      label: item.fullName,
-      description: item.fileName || '',
-      detail: `Type: ${item.type ?? metadataType} | Created: ${created}`
-    };
-  });
+  /** List the authenticated orgs again the next time the tree is loaded. */
+  forgetOrgs() {
+    this.orgList = undefined;
+  }
 
-  const selectedItem = await vscode.window.showQuickPick(items, {
-    placeHolder: `Select a ${metadataType} item`,
-    matchOnDescription: true,
-    matchOnDetail: true
-  });
+  /** List the authenticated orgs again and reload the whole tree. */
+  reload() {
+    this.forgetOrgs();
+    this.refresh();
+  }
 
-  if (selectedItem) {
-    const originalItem = metadataItems.find(i => i.fullName === selectedItem.label);
-    return {
-      name: selectedItem.label,
-      fileName: originalItem?.fileName || null
+  /** Reload the nodes showing a revalidated list; lists that aren't expanded need nothing. */
+  refreshCached(e: CacheRefreshEvent) {
+    for (const node of [...this.shown.values()].flat()) {
+      if (node.kind === 'message' || node.kind === 'item' || node.orgId !== e.orgId) continue;
+      const matches = node.kind === 'org' ? !e.metadataType
+        : node.kind === 'type' ? !e.folder && (e.metadataType === node.metadataType || e.metadataType === node.folderType)
+        : e.metadataType === node.metadataType && e.folder === node.folder;
+      if (matches) this.refresh(node);
+    }
+  }
+
+  private remember(parent: ExplorerNode | undefined, children: ExplorerNode[]): ExplorerNode[] {
+    const forget = (node: ExplorerNode | undefined) => {
+      for (const child of this.shown.get(node) ?? []) forget(child);
+      this.shown.delete(node);
     };
+    forget(parent);
+    this.shown.set(parent, children);
+    return children;
   }
-  return undefined;
+
+  getTreeItem(node: ExplorerNode): vscode.TreeItem {
+    switch (node.kind) {
+      case 'org': {
+        const item = new vscode.TreeItem(node.targetOrg, vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = [node.targetOrg !== node.username ? node.username : undefined, node.isDefault ? '(default)' : undefined]
+          .filter(Boolean).join(' ');
+        item.tooltip = `${node.username}\n${node.orgId}`;
+        item.iconPath = new vscode.ThemeIcon('cloud');
+        item.contextValue = 'nakodxOrg';
+        return item;
+      }
+      case 'type': {
+        const item = new vscode.TreeItem(node.metadataType, this.filter
+          ? vscode.TreeItemCollapsibleState.Expanded
+          : vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = `${node.orgId}:${node.metadataType}:${this.filter}`;
+        const cacheKey = getMetadataItemsCacheKey(node.orgId, node.folderType ?? node.metadataType);
+        item.description = [node.folderType ? `in ${node.folderType}` : undefined, describeCacheState(cacheKey, metadataItemsCache.get(cacheKey)?.ts)]
+          .filter(Boolean).join(' · ') || undefined;
+        item.iconPath = new vscode.ThemeIcon('symbol-class');
+        item.contextValue = 'nakodxType';
+        return item;
+      }
+      case 'folder': {
+        const item = new vscode.TreeItem(node.folder, vscode.TreeItemCollapsibleState.Collapsed);
+        item.iconPath = vscode.ThemeIcon.Folder;
+        item.contextValue = 'nakodxFolder';
+        return item;
+      }
+      case 'item': {
+        const item = new vscode.TreeItem(node.item.fullName, vscode.TreeItemCollapsibleState.None);
+        const created = node.item.createdDate ? new Date(node.item.createdDate).toLocaleDateString() : 'Unknown';
+        item.description = node.item.fileName;
+        item.tooltip = `${node.metadataType}:${node.item.fullName}\nCreated: ${created}\nModified: ${describeLastModified(node.item)}`;
+        item.iconPath = new vscode.ThemeIcon('file-code');
+        item.contextValue = 'nakodxItem';
+        return item;
+      }
+      case 'message':
+        return new vscode.TreeItem(node.message, vscode.TreeItemCollapsibleState.None);
+    }
+  }
+
+  async getChildren(node?: ExplorerNode): Promise<ExplorerNode[]> {
+    const cwd = getProjectFolder()?.uri.fsPath;
+    if (!cwd) return node ? [] : [{ kind: 'message', message: 'Open a Salesforce project to browse orgs.' }];
+    try {
+      if (!node) return this.remember(node, await this.getOrgNodes(cwd));
+      switch (node.kind) {
+        case 'org': return this.remember(node, await this.getTypeNodes(node, cwd));
+        case 'type': return this.remember(node, await this.getTypeChildren(node, cwd));
+        case 'folder': {
+          const items = await getMetadataItems(node.metadataType, cwd, undefined, { folder: node.folder, targetOrg: node.targetOrg });
+          return this.toItemNodes(node, items, true);
+        }
+        default: return [];
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logErr(`Metadata Explorer: ${msg}`);
+      return [{ kind: 'message', message: `Failed to load: ${msg}` }];
+    }
+  }
+
+  private async getOrgNodes(cwd: string): Promise<ExplorerNode[]> {
+    const orgList = this.orgList ??= runSfJson<SfAuthList>(['org', 'list', 'auth'], cwd);
+    orgList.catch(() => { if (this.orgList === orgList) this.orgList = undefined; });
+    const [auth, defaultOrg] = await Promise.all([
+      orgList,
+      getDefaultTargetOrg(cwd).catch(() => undefined)
+    ]);
+
+    const orgs = auth.result.map(r => ({
+      kind: 'org' as const,
+      targetOrg: r.alias ?? r.username,
+      orgId: r.orgId,
+      username: r.username,
+      isDefault: defaultOrg !== undefined && (r.alias === defaultOrg || r.username === defaultOrg)
+    }));
+    // Default org first
+    orgs.sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+    return orgs.length ? orgs : [{ kind: 'message', message: 'No authenticated orgs. Run `sf org login web`.' }];
+  }
+
+  private async getTypeNodes(org: Extract<ExplorerNode, { kind: 'org' }>, cwd: string): Promise<ExplorerNode[]> {
+    const types = await getMetadataTypes(cwd, true, undefined, org.targetOrg);
+    const filter = this.filter.toLowerCase();
+    return types
+      .map(t => t.xmlName)
+      .sort((a, b) => a.localeCompare(b))
+      .filter(name => !filter || name.toLowerCase().includes(filter) || this.hasCachedMatch(org.orgId, name, filter))
+      .map(name => ({
+        kind: 'type',
+        targetOrg: org.targetOrg,
+        orgId: org.orgId,
+        metadataType: name,
+        folderType: getFolderMetadataType(types, name)
+      }));
+  }
+
+  private async getTypeChildren(node: Extract<ExplorerNode, { kind: 'type' }>, cwd: string): Promise<ExplorerNode[]> {
+    if (node.folderType) {
+      const folders = (await getMetadataItems(node.folderType, cwd, undefined, { targetOrg: node.targetOrg }))
+        .map(f => f.fullName)
+        .sort((a, b) => a.localeCompare(b));
+      if (TYPES_WITH_UNFILED_FOLDER.has(node.metadataType)) folders.unshift(UNFILED_PUBLIC_FOLDER);
+      return folders.map(folder => ({ kind: 'folder', targetOrg: node.targetOrg, orgId: node.orgId, metadataType: node.metadataType, folder }));
+    }
+    const items = await getMetadataItems(node.metadataType, cwd, undefined, { targetOrg: node.targetOrg });
+    // When the type name itself matches the filter, show all of its items
+    const typeMatches = !this.filter || node.metadataType.toLowerCase().includes(this.filter.toLowerCase());
+    return this.toItemNodes(node, items, typeMatches);
+  }
+
+  private toItemNodes(
+    parent: { targetOrg: string; orgId: string; metadataType: string },
+    items: MetadataItem[],
+    showAll: boolean
+  ): ExplorerNode[] {
+    const filter = this.filter.toLowerCase();
+    const nodes: ExplorerNode[] = [...items]
+      .filter(i => showAll || !filter || i.fullName.toLowerCase().includes(filter))
+      .sort((a, b) => a.fullName.localeCompare(b.fullName))
+      .map(item => ({ kind: 'item', targetOrg: parent.targetOrg, orgId: parent.orgId, metadataType: parent.metadataType, item }));
+    return nodes.length ? nodes : [{ kind: 'message', message: filter ? 'No items match the filter' : 'No items' }];
+  }
+
+  private hasCachedMatch(orgId: string, metadataType: string, filter: string): boolean {
+    const cached = metadataItemsCache.get(getMetadataItemsCacheKey(orgId, metadataType));
+    return Boolean(cached?.items.some(i => i.fullName.toLowerCase().includes(filter)));
+  }
+}
+
+function registerMetadataExplorer(context: vscode.ExtensionContext) {
+  const provider = new MetadataExplorerProvider();
+  const treeView = vscode.window.createTreeView('nakodxMetadataExplorer', { treeDataProvider: provider, showCollapseAll: true });
+
+  const setFilter = async (filter: string) => {
+    provider.filter = filter;
+    treeView.message = filter ? `Filter: "${filter}"` : undefined;
+    await vscode.commands.executeCommand('setContext', 'nakodx.explorerFiltered', Boolean(filter));
+    provider.refresh();
+  };
+
+  const runOnItem = (title: string, fn: (node: Extract<ExplorerNode, { kind: 'item' }>, cwd: string, token: vscode.CancellationToken) => Promise<unknown>) =>
+    function run(node?: ExplorerNode): Thenable<void> | undefined {
+      if (node?.kind !== 'item') return;
+      const cwd = getProjectFolder()?.uri.fsPath;
+      if (!cwd) return;
+      return withCliProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `${title} ${node.metadataType}:${node.item.fullName}…`,
+        cancellable: true
+      }, async (_progress, token) => {
+        try {
+          await fn(node, cwd, token);
+        } catch (err) {
+          showCliError(`${title} failed`, err, () => run(node));
+        }
+      });
+    };
+
+  context.subscriptions.push(
+    treeView,
+    vscode.commands.registerCommand('nakodx.explorer.refresh', () => provider.reload()),
+    vscode.commands.registerCommand('nakodx.explorer.filter', async () => {
+      const filter = await vscode.window.showInputBox({
+        prompt: 'Filter metadata types and cached items by name',
+        placeHolder: 'e.g. Invoice',
+        value: provider.filter
+      });
+      if (filter !== undefined) await setFilter(filter.trim());
+    }),
+    vscode.commands.registerCommand('nakodx.explorer.clearFilter', () => setFilter('')),
+    vscode.commands.registerCommand('nakodx.explorer.retrieveItem', runOnItem('Retrieving', (node, cwd, token) =>
+      retrieveComponents([{ type: node.metadataType, fullName: node.item.fullName }], cwd, token, node.targetOrg))),
+    vscode.commands.registerCommand('nakodx.explorer.compareItem', runOnItem('Comparing', (node, cwd, token) =>
+      compareComponentsWithServer([{ type: node.metadataType, fullName: node.item.fullName }], cwd, token, node.targetOrg))),
+    vscode.commands.registerCommand('nakodx.explorer.peekItem', runOnItem('Peeking', (node, cwd, token) =>
+      peekComponent({ type: node.metadataType, fullName: node.item.fullName }, node.targetOrg, cwd, token))),
+    vscode.commands.registerCommand('nakodx.explorer.refreshType', async (node?: ExplorerNode) => {
+      const cwd = getProjectFolder()?.uri.fsPath;
+      if (node?.kind !== 'type' || !cwd) return;
+      const refreshed = await withCliProgress({
+        location: vscode.ProgressLocation.Window,
+        title: `Refreshing ${node.metadataType}…`
+      }, async () => {
+        try {
+          // The user asked for a fresh list: a failure must not show the old one as if it were
+          await getMetadataItems(node.folderType ?? node.metadataType, cwd, undefined, { targetOrg: node.targetOrg, forceRefresh: true, noCacheFallback: true });
+          return true;
+        } catch (err) {
+          showCliError(`Failed to refresh ${node.metadataType}`, err);
+          return false;
+        }
+      });
+      if (refreshed) provider.refresh(node);
+    }),
+    // Stale lists revalidated in the background; a failed refresh changes no list
+    onDidRefreshCache(e => {
+      if (!e.failed) provider.refreshCached(e);
+    }),
+    // Auth files also change when sf refreshes a token, so the tree isn't reloaded for it
+    onDidChangeOrgResolution(() => provider.forgetOrgs())
+  );
 }
 
 /**
- * ===== Retrieve & open (with rich error handling) =====
+ * ===== Status bar =====
+ * Shows the project's target org, its kind and the age of its cached type list;
+ * clicking opens a menu to switch the default org, refresh caches or open the output.
  */
-async function retrieveSelectedFile(metadataType: string, itemName: string, token?: vscode.CancellationToken): Promise<void> {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-  if (!workspaceFolder) throw new Error('No workspace folder open');
-  const cwd = workspaceFolder.uri.fsPath;
+let statusBarItem: vscode.StatusBarItem;
+let statusBarOrg: { cwd: string; org?: SfOrgAuth; targetOrg?: string } | undefined;
+let statusBarUpdate = 0; // drops results of superseded updates
 
-  const metadataArg = `${metadataType}:${itemName}`;
-  const result = await runSfJson<SfRetrieve>(['project', 'retrieve', 'start', '--metadata', metadataArg], cwd, token);
+function registerStatusBar(context: vscode.ExtensionContext) {
+  statusBarItem = vscode.window.createStatusBarItem('nakodx.org', vscode.StatusBarAlignment.Left, 50);
+  statusBarItem.name = 'NAKODX Org';
+  statusBarItem.command = 'nakodx.showOrgMenu';
 
-  // Even when status==0, there can be logical failures in messages/files.
-  const problems = collectRetrieveProblems(result);
-  if (problems.length) {
-    const first = problems[0];
-    // Throw with rich context; top-level will show the toast.
-    throw new SfCliError(first, { rawJson: result });
-  }
+  const refreshTimer = setInterval(() => renderStatusBar(), 60 * 1000);
 
-  vscode.window.showInformationMessage(`Successfully retrieved ${metadataType}:${itemName}`);
+  context.subscriptions.push(
+    statusBarItem,
+    { dispose: () => clearInterval(refreshTimer) },
+    onDidChangeOrgResolution(() => updateStatusBar()),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => updateStatusBar()),
+    // In multi-root workspaces the project follows the active editor
+    vscode.window.onDidChangeActiveTextEditor(() => {
+      if (getProjectFolder()?.uri.fsPath !== statusBarOrg?.cwd) updateStatusBar();
+    }),
+    onDidRefreshCache(() => renderStatusBar()),
+    registerProjectCommand('nakodx.showOrgMenu', cwd => showOrgMenu(cwd))
+  );
 
-  // Open first non -meta.xml file if setting enabled
-  const config = vscode.workspace.getConfiguration('nakodx-file-retriever');
-  const autoOpen = Boolean(config.get('autoOpenAfterDownload', true));
+  updateStatusBar();
+}
 
-  if (autoOpen) {
-    const files = result.result?.files ?? [];
-    const first = files.find(f => !f.filePath.endsWith('-meta.xml')) ?? files[0];
-    if (first?.filePath) {
-      const filePath = path.isAbsolute(first.filePath)
-        ? first.filePath
-        : path.join(cwd, first.filePath);
-
-      if (fs.existsSync(filePath)) {
-        const doc = await vscode.workspace.openTextDocument(filePath);
-        await vscode.window.showTextDocument(doc);
-      } else {
-        logWarn(`Retrieved file does not exist on disk: ${filePath}`);
-      }
-    }
+/** Re-resolve the project's target org, then redraw. */
+async function updateStatusBar(): Promise<void> {
+  const update = ++statusBarUpdate;
+  const cwd = getProjectFolder()?.uri.fsPath;
+  if (!cwd || !fs.existsSync(path.join(cwd, 'sfdx-project.json'))) {
+    statusBarOrg = undefined;
+    statusBarItem.hide();
+    return;
+  }
+
+  let next: typeof statusBarOrg = { cwd };
+  try {
+    const targetOrg = await getDefaultTargetOrg(cwd);
+    next = { cwd, targetOrg, org: targetOrg ? await findOrgAuth(targetOrg, cwd) : undefined };
+  } catch (err) {
+    logWarn(`Could not resolve the target org for the status bar: ${String(err)}`);
   }
+  if (update !== statusBarUpdate) return;
+  statusBarOrg = next;
+  await renderStatusBar();
 }
 
-/** Flatten useful “problem” strings from a retrieve JSON payload. */
-function collectRetrieveProblems(json: SfRetrieve): string[] {
-  const msgs: Array<{ fileName?: string; problem?: string }> | string | undefined = json.result?.messages;
-  const files = json.result?.files ?? [];
-  const out: string[] = [];
+/** "now", "5m", "3h", "12d" */
+function formatShortAge(ts: number): string {
+  const minutes = Math.floor((Date.now() - ts) / 60000);
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+}
 
-  if (Array.isArray(msgs)) {
-    for (const m of msgs) {
-      if (m?.problem) {
-        out.push(m.fileName ? `${m.problem} (${m.fileName})` : m.problem);
-      }
-    }
-  } else if (typeof msgs === 'string' && msgs.trim()) {
-    out.push(msgs.trim());
+async function renderStatusBar(): Promise<void> {
+  if (!statusBarItem || !statusBarOrg) return;
+  const { cwd, org, targetOrg } = statusBarOrg;
+
+  if (!targetOrg) {
+    statusBarItem.text = '$(cloud) No target org';
+    statusBarItem.tooltip = `No default target-org set for ${path.basename(cwd)}. Click to choose one.`;
+    statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+    statusBarItem.show();
+    return;
+  }
+  if (!org) {
+    statusBarItem.text = `$(cloud) ${targetOrg} (not authenticated)`;
+    statusBarItem.tooltip = `${targetOrg} is not in \`sf org list auth\`. Click to choose another org.`;
+    statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+    statusBarItem.show();
+    return;
   }
 
-  for (const f of files) {
-    if (f?.state === 'Failed' && f?.error) {
-      const label = f.fullName && f.type ? `${f.type} ${f.fullName}` : undefined;
-      out.push(label ? `${f.error} [${label}]` : f.error);
-    }
+  const cacheKey = getMetadataTypesCacheKey(org.orgId);
+  const cached = metadataTypesCache?.orgId === org.orgId ? metadataTypesCache : await loadMetadataTypesFromDisk(org.orgId);
+  const offline = refreshFailures.get(cacheKey);
+  const kind = getOrgKind(org);
+
+  statusBarItem.text = [
+    `$(cloud) ${org.alias ?? org.username}`,
+    kind,
+    cached?.ts ? `$(database) ${formatShortAge(cached.ts)}` : undefined
+  ].filter(Boolean).join(' · ');
+  statusBarItem.tooltip = [
+    `NAKODX target org: ${org.alias ? `${org.alias} (${org.username})` : org.username}`,
+    `${kind} org ${org.orgId}${org.instanceUrl ? ` at ${org.instanceUrl}` : ''}`,
+    cached?.ts ? `Metadata types cached ${formatAge(cached.ts)}${isFresh(cached.ts) ? '' : ' (expired)'}` : 'Metadata types not cached',
+    offline ? `Last refresh failed: ${offline.message}` : undefined,
+    'Click for org and cache actions'
+  ].filter(Boolean).join('\n');
+  statusBarItem.backgroundColor = offline || kind === 'Production'
+    ? new vscode.ThemeColor('statusBarItem.warningBackground')
+    : undefined;
+  statusBarItem.show();
+}
+
+async function showOrgMenu(cwd: string) {
+  const actions = {
+    switchOrg: '$(arrow-swap) Switch Default Org…',
+    refresh: '$(refresh) Refresh Caches',
+    output: '$(output) Open NAKODX Output'
+  };
+  const choice = await vscode.window.showQuickPick(Object.values(actions), {
+    placeHolder: statusBarOrg?.org ? `Target org: ${statusBarOrg.org.alias ?? statusBarOrg.org.username}` : 'No target org'
+  });
+
+  try {
+    if (choice === actions.switchOrg) await switchDefaultOrg(cwd);
+    else if (choice === actions.refresh) await refreshOrgCaches(cwd);
+    else if (choice === actions.output) output.show(true);
+  } catch (err) {
+    showCliError(choice === actions.switchOrg ? 'Failed to switch the default org' : 'Failed to refresh caches', err);
   }
+}
 
-  // If CLI indicated overall failure via message/code (e.g., ENOTFOUND), include that
-  const top = buildHumanMessage(json);
-  if (top && !out.length) out.push(top);
+/** `sf config set target-org` in the current project. Resolves false when nothing was picked. */
+async function switchDefaultOrg(cwd: string): Promise<boolean> {
+  const targetOrg = await showOrgQuickPick(cwd, 'Select the default org for this project');
+  if (!targetOrg) return false;
+  await runSfJson<{ status: number }>(['config', 'set', 'target-org', targetOrg], cwd);
+  logInfo(`Default target-org of ${path.basename(cwd)} set to ${targetOrg}`);
+  invalidateOrgResolution(path.join(cwd, '.sf', 'config.json'));
+  return true;
+}
 
-  return out;
+/** Re-list the type list and every cached item list of the target org. */
+async function refreshOrgCaches(cwd: string) {
+  await withCliProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'NAKODX: Refreshing caches',
+    cancellable: true
+  }, async (progress, token) => {
+    const orgId = await getCurrentOrgId(cwd);
+    if (!orgId) throw new Error('Could not determine current org ID');
+
+    progress.report({ message: 'Metadata types…' });
+    await getMetadataTypes(cwd, false, token);
+
+    const cachedLists = [...metadataItemsCache.values()].filter(c => c.orgId === orgId);
+    let done = 0;
+    await runWithConcurrency(cachedLists, SEARCH_CONCURRENCY, async c => {
+      await getMetadataItems(c.metadataType, cwd, token, { folder: c.folder, forceRefresh: true });
+      progress.report({ message: `${++done}/${cachedLists.length} item lists`, increment: 100 / cachedLists.length });
+    }, token);
+
+    logInfo(`Refreshed metadata types and ${done} item list(s) of ${orgId}`);
+    cacheRefreshEmitter.fire({ orgId });
+  });
+}
+
+/**
+ * ===== Recovery actions =====
+ * Offered by showCliError for recognised failures.
+ */
+
+/** `sf org login web` for an org (default: the project's target-org), keeping its alias and instance. */
+async function reauthenticateOrg(cwd: string, targetOrg?: string): Promise<boolean> {
+
+  const aliasOrUsername = targetOrg ?? await getDefaultTargetOrg(cwd).catch(() => undefined);
+  const org = aliasOrUsername ? await findOrgAuth(aliasOrUsername, cwd).catch(() => undefined) : undefined;
+  // Usernames contain '@'; anything else is an alias, even when it is not authenticated (yet)
+  const alias = org?.alias ?? (aliasOrUsername && !aliasOrUsername.includes('@') ? aliasOrUsername : undefined);
+
+  const args = ['org', 'login', 'web'];
+  if (alias) args.push('--alias', alias);
+  if (org?.instanceUrl) args.push('--instance-url', org.instanceUrl);
+
+  const name = alias ?? org?.username ?? 'Salesforce';
+  await withCliProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: `Log in to ${name} in the browser…`,
+    cancellable: true
+  }, (_progress, token) => runSfJson<{ status: number }>(args, cwd, token));
+
+  logInfo(`Re-authenticated ${name}`);
+  invalidateOrgResolution('sf org login web');
+  return true;
+}
+
+/** List metadata types again, e.g. after a type was reported as unknown. */
+async function refreshMetadataTypes(cwd: string, targetOrg?: string): Promise<boolean> {
+  await withCliProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'NAKODX: Refreshing metadata types',
+    cancellable: true
+  }, (_progress, token) => getMetadataTypes(cwd, false, token, targetOrg));
+  return true;
 }
 
 /**
  * ===== Cache clearing commands =====
  */
-async function deleteTypesCache() {
+async function deleteTypesCache(cwd: string) {
   try {
-    const currentOrgId = await getCurrentOrgId();
+    const currentOrgId = await getCurrentOrgId(cwd);
     if (!currentOrgId) {
       vscode.window.showErrorMessage('Could not determine current org ID');
       return;
@@ -707,6 +4776,7 @@ async function deleteTypesCache() {
     }
 
     if (cleared) {
+      updateStatusBar();
       vscode.window.showInformationMessage('Metadata types cache cleared for current org.');
     } else {
       vscode.window.showInformationMessage('No metadata types cache found for current org.');
@@ -716,9 +4786,9 @@ async function deleteTypesCache() {
   }
 }
 
-async function deleteItemsCache() {
+async function deleteItemsCache(cwd: string) {
   try {
-    const currentOrgId = await getCurrentOrgId();
+    const currentOrgId = await getCurrentOrgId(cwd);
     if (!currentOrgId) {
       vscode.window.showErrorMessage('Could not determine current org ID');
       return;
@@ -743,6 +4813,8 @@ async function deleteItemsCache() {
       }
     }
 
+    memDeleted += await deleteServerFiles(currentOrgId);
+
     if (memDeleted + diskDeleted > 0) {
       vscode.window.showInformationMessage(
         `Metadata items cache cleared for current org (memory: ${memDeleted}, disk: ${diskDeleted}).`